@@ -0,0 +1,134 @@
+// Error contract shared by every Edge Function: each error response is an
+// ErrorResponse with a stable code. The code decides the HTTP status and
+// whether retrying can help. Messages are written for users; exceptions we
+// didn't raise ourselves are logged and answered with the code's default
+// message, never their own.
+
+// Machine-readable error codes - ERROR_CODES below has their HTTP status and retryable flag
+export type ErrorCode =
+    | 'INVALID_INPUT'
+    | 'UNAUTHORIZED'
+    | 'FORBIDDEN'
+    | 'NOT_FOUND'
+    | 'METHOD_NOT_ALLOWED'
+    | 'PRODUCT_NOT_FOUND'
+    | 'IMAGE_UNREACHABLE'
+    | 'NOT_FOOD'
+    | 'LABEL_UNREADABLE'
+    | 'RATE_LIMITED'
+    | 'COST_CAP'
+    | 'PROVIDER_UNAVAILABLE'
+    | 'TIMEOUT'
+    | 'INTERNAL';
+
+export interface ErrorResponse {
+    error: ErrorCode;
+    message: string;       // English, safe to show; never an internal exception message
+    message_key: string;   // Translation key for the app, e.g. 'errors.rate_limited'
+    retryable: boolean;    // Whether the same request may succeed later
+    field?: string;        // Request field the error is about, e.g. 'image_urls[1]'
+    retry_after?: number;  // RATE_LIMITED and COST_CAP: seconds until the exhausted limit resets
+}
+
+interface ErrorCodeInfo {
+    status: number;
+    retryable: boolean;
+    message: string;  // Default message
+}
+
+export const ERROR_CODES: Record<ErrorCode, ErrorCodeInfo> = {
+    INVALID_INPUT: { status: 400, retryable: false, message: 'The request is invalid' },
+    UNAUTHORIZED: { status: 401, retryable: false, message: 'Missing or invalid authorization token' },
+    FORBIDDEN: { status: 403, retryable: false, message: 'Not allowed for this user' },
+    NOT_FOUND: { status: 404, retryable: false, message: 'Not found' },
+    METHOD_NOT_ALLOWED: { status: 405, retryable: false, message: 'Method not allowed' },
+    PRODUCT_NOT_FOUND: { status: 404, retryable: false, message: 'Unknown barcode' },
+    IMAGE_UNREACHABLE: { status: 422, retryable: false, message: 'The image URL could not be loaded' },
+    NOT_FOOD: { status: 422, retryable: false, message: 'The image does not appear to contain food' },
+    LABEL_UNREADABLE: { status: 422, retryable: false, message: 'No readable nutrition label found in the image' },
+    RATE_LIMITED: { status: 429, retryable: true, message: 'Analysis limit reached' },
+    COST_CAP: { status: 429, retryable: true, message: 'Monthly AI budget used up' },
+    PROVIDER_UNAVAILABLE: { status: 503, retryable: true, message: 'The AI analysis failed. Please try again.' },
+    TIMEOUT: { status: 504, retryable: true, message: 'The request took too long. Please try again.' },
+    INTERNAL: { status: 500, retryable: true, message: 'Something went wrong on our side. Please try again.' },
+};
+
+/**
+ * An error with a code and a message meant for the client
+ */
+export class ApiError extends Error {
+    code: ErrorCode;
+    field?: string;
+
+    constructor(code: ErrorCode, message = ERROR_CODES[code].message, field?: string) {
+        super(message);
+        this.name = 'ApiError';
+        this.code = code;
+        this.field = field;
+    }
+}
+
+/**
+ * Builds the response body for a code. The message key is derived from the
+ * code, so the app can translate every error the same way.
+ */
+export function errorBody(
+    code: ErrorCode,
+    message = ERROR_CODES[code].message,
+    extra: { field?: string; retry_after?: number } = {}
+): ErrorResponse {
+    const body: ErrorResponse = {
+        error: code,
+        message,
+        message_key: `errors.${code.toLowerCase()}`,
+        retryable: ERROR_CODES[code].retryable,
+    };
+    if (extra.field) {
+        body.field = extra.field;
+    }
+    if (extra.retry_after !== undefined) {
+        body.retry_after = extra.retry_after;
+    }
+    return body;
+}
+
+/**
+ * Helper to return error response. The status comes from the code.
+ */
+export function jsonError(
+    code: ErrorCode,
+    message?: string,
+    extra: { field?: string; retry_after?: number } = {},
+    headers: Record<string, string> = {}
+): Response {
+    return new Response(JSON.stringify(errorBody(code, message, extra)), {
+        status: ERROR_CODES[code].status,
+        headers: {
+            'Content-Type': 'application/json',
+            'Access-Control-Allow-Origin': '*',
+            ...headers,
+        },
+    });
+}
+
+/**
+ * Maps any thrown error to an ApiError. Only ApiErrors keep their message.
+ */
+export function toApiError(error: unknown): ApiError {
+    if (error instanceof ApiError) {
+        return error;
+    }
+    if ((error as Error)?.name === 'TimeoutError') {
+        return new ApiError('TIMEOUT');
+    }
+    return new ApiError('INTERNAL');
+}
+
+/**
+ * Maps a thrown error to the response the client gets. Internal messages
+ * are logged by the caller and not passed on.
+ */
+export function errorResponse(error: unknown): Response {
+    const apiError = toApiError(error);
+    return jsonError(apiError.code, apiError.message, { field: apiError.field });
+}
@@ -0,0 +1,147 @@
+// Structured logging for every Edge Function: one JSON object per line
+// Each request runs in a log context (request id, hashed user id) carried by
+// AsyncLocalStorage, so helpers anywhere in the call chain - including async
+// jobs that outlive the response - log with it without being handed a logger.
+// Raw model output and user text go to debug only (LOG_LEVEL=debug).
+
+import { AsyncLocalStorage } from 'node:async_hooks';
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+export type LogStage = 'auth' | 'validation' | 'image_fetch' | 'provider_call' | 'parse';
+
+export type LogFields = Record<string, unknown>;
+
+interface LogContext {
+    request_id: string;
+    user?: string;  // Hashed user id
+}
+
+export const REQUEST_ID_HEADER = 'X-Request-Id';
+
+const LEVELS: Record<LogLevel, number> = { debug: 10, info: 20, warn: 30, error: 40 };
+
+// Client-supplied ids end up in every log line - keep them short and plain
+const REQUEST_ID_REGEX = /^[A-Za-z0-9._:-]{1,128}$/;
+
+// debug, info, warn or error. Raw model responses are only logged at debug
+const LOG_LEVEL = Deno.env.get('LOG_LEVEL') ?? 'info';
+
+const context = new AsyncLocalStorage<LogContext>();
+
+export const log = {
+    debug: (message: string, fields?: LogFields) => write('debug', message, fields),
+    info: (message: string, fields?: LogFields) => write('info', message, fields),
+    warn: (message: string, fields?: LogFields) => write('warn', message, fields),
+    error: (message: string, fields?: LogFields) => write('error', message, fields),
+};
+
+/**
+ * The caller's X-Request-Id when it's usable, otherwise a new one
+ */
+export function requestIdFrom(req: Request): string {
+    const incoming = req.headers.get(REQUEST_ID_HEADER);
+    return incoming && REQUEST_ID_REGEX.test(incoming) ? incoming : crypto.randomUUID();
+}
+
+/**
+ * Runs fn with every log line tagged with the request id
+ */
+export function withLogContext<T>(requestId: string, fn: () => T): T {
+    return context.run({ request_id: requestId }, fn);
+}
+
+/**
+ * Handles one request in its own log context: logs when it finished and
+ * echoes the request id on the response
+ */
+export async function withRequestLog(req: Request, handle: () => Promise<Response>): Promise<Response> {
+    const requestId = requestIdFrom(req);
+    return await withLogContext(requestId, async () => {
+        const startedAt = Date.now();
+        const response = await handle();
+        log.info('Request finished', {
+            method: req.method,
+            status: response.status,
+            duration_ms: Date.now() - startedAt,
+        });
+        return withRequestIdHeader(response, requestId);
+    });
+}
+
+/**
+ * Tags the rest of the request's log lines with the (hashed) user
+ */
+export async function setLogUser(userId: string): Promise<void> {
+    const current = context.getStore();
+    if (current) {
+        current.user = await hashUserId(userId);
+    }
+}
+
+/**
+ * Runs one stage of the request and logs how long it took and whether it failed
+ */
+export async function timed<T>(stage: LogStage, fn: () => T | Promise<T>, fields?: LogFields): Promise<T> {
+    const startedAt = Date.now();
+    try {
+        const result = await fn();
+        write('info', 'Stage finished', { stage, ...fields, duration_ms: Date.now() - startedAt, ok: true });
+        return result;
+    } catch (error) {
+        write('info', 'Stage finished', { stage, ...fields, duration_ms: Date.now() - startedAt, ok: false, error });
+        throw error;
+    }
+}
+
+/**
+ * Echoes the request id, readable by browser scripts too
+ */
+function withRequestIdHeader(response: Response, requestId: string): Response {
+    response.headers.set(REQUEST_ID_HEADER, requestId);
+    const exposed = response.headers.get('Access-Control-Expose-Headers');
+    response.headers.set('Access-Control-Expose-Headers', exposed ? `${exposed}, ${REQUEST_ID_HEADER}` : REQUEST_ID_HEADER);
+    return response;
+}
+
+/**
+ * First 16 hex characters of the SHA-256 of the user id: stable enough to
+ * follow one user through the logs, without the id itself
+ */
+async function hashUserId(userId: string): Promise<string> {
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(userId));
+    return Array.from(new Uint8Array(digest).slice(0, 8))
+        .map((byte) => byte.toString(16).padStart(2, '0'))
+        .join('');
+}
+
+function write(level: LogLevel, message: string, fields?: LogFields): void {
+    if (LEVELS[level] < LEVELS[minLevel()]) {
+        return;
+    }
+
+    const entry: LogFields = {
+        time: new Date().toISOString(),
+        level,
+        msg: message,
+        ...context.getStore(),
+    };
+    for (const [key, value] of Object.entries(fields ?? {})) {
+        if (value !== undefined) {
+            entry[key] = value instanceof Error ? { name: value.name, message: value.message } : value;
+        }
+    }
+
+    const line = JSON.stringify(entry);
+    if (level === 'error') {
+        console.error(line);
+    } else if (level === 'warn') {
+        console.warn(line);
+    } else {
+        console.log(line);
+    }
+}
+
+function minLevel(): LogLevel {
+    return LOG_LEVEL in LEVELS ? LOG_LEVEL as LogLevel : 'info';
+}
@@ -0,0 +1,29 @@
+// Tests for budget levels
+
+import { assertEquals } from 'https://deno.land/std@0.168.0/testing/asserts.ts';
+import { budgetLevel, budgetRetryAfterSeconds } from './budget.ts';
+import { BudgetUsage } from './database.ts';
+import { BudgetLevel } from './types.ts';
+import { CONFIG } from './config.ts';
+
+const GLOBAL_LIMIT = CONFIG.COST_LIMIT_MONTHLY_INR;
+
+Deno.test('budgetLevel follows whichever budget is closer to running out', () => {
+    const cases: [string, BudgetUsage, BudgetLevel][] = [
+        ['no spend', { global_cost: 0, user_cost: 0, user_budget: 50 }, 'normal'],
+        ['no user budget', { global_cost: 0, user_cost: 500, user_budget: null }, 'normal'],
+        ['global reduced', { global_cost: GLOBAL_LIMIT * CONFIG.BUDGET_REDUCED_AT, user_cost: 0, user_budget: 50 }, 'reduced'],
+        ['global exhausted', { global_cost: GLOBAL_LIMIT, user_cost: 0, user_budget: 50 }, 'exhausted'],
+        ['user minimal', { global_cost: 0, user_cost: 50 * CONFIG.BUDGET_MINIMAL_AT, user_budget: 50 }, 'minimal'],
+        ['user exhausted', { global_cost: 0, user_cost: 60, user_budget: 50 }, 'exhausted'],
+        ['zero user budget', { global_cost: 0, user_cost: 0, user_budget: 0 }, 'exhausted'],
+    ];
+    for (const [name, usage, expected] of cases) {
+        assertEquals(budgetLevel(usage), expected, name);
+    }
+});
+
+Deno.test('budgetRetryAfterSeconds counts down to the 1st of next month', () => {
+    assertEquals(budgetRetryAfterSeconds(new Date('2026-03-31T23:00:00Z')), 3600);
+    assertEquals(budgetRetryAfterSeconds(new Date('2026-12-31T23:59:00Z')), 60);
+});
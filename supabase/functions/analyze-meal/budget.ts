@@ -0,0 +1,91 @@
+// Layered AI budgets
+// The global monthly limit (config.ts) and the user's plan budget (SQL) are
+// both checked, and the one closer to running out sets the level. Near the
+// limit analyses get cheaper before they get refused.
+
+import { AIProvider, AnalysisInput, BudgetLevel } from './types.ts';
+import { BudgetUsage } from './database.ts';
+import { resolveProviderChain } from './providers.ts';
+import { calculateCostInr } from './pricing.ts';
+import { CONFIG } from './config.ts';
+
+/**
+ * Level for this month's spend so far
+ */
+export function budgetLevel(usage: BudgetUsage): BudgetLevel {
+    const share = Math.max(usage.global_cost / CONFIG.COST_LIMIT_MONTHLY_INR, userShare(usage));
+
+    if (share >= 1) {
+        return 'exhausted';
+    }
+    if (share >= CONFIG.BUDGET_MINIMAL_AT) {
+        return 'minimal';
+    }
+    if (share >= CONFIG.BUDGET_REDUCED_AT) {
+        return 'reduced';
+    }
+    return 'normal';
+}
+
+/**
+ * User-facing reason for an exhausted budget
+ */
+export function budgetExceededMessage(usage: BudgetUsage): string {
+    return userShare(usage) >= 1
+        ? `Your monthly AI budget (₹${usage.user_budget}) is used up. It resets on the 1st of next month.`
+        : `Monthly cost limit reached (₹${CONFIG.COST_LIMIT_MONTHLY_INR}). Please try again next month.`;
+}
+
+/**
+ * Seconds until budgets reset (the 1st of next month, UTC)
+ */
+export function budgetRetryAfterSeconds(now = new Date()): number {
+    const reset = Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1);
+    return Math.max(Math.ceil((reset - now.getTime()) / 1000), 1);
+}
+
+/**
+ * Cuts an analysis down to what the level allows: the first provider only
+ * ('reduced'), or the cheapest one ('minimal'). In 'minimal', photo analyses
+ * with a usable description run text-only - no image tokens, and the food
+ * table does most of the work.
+ */
+export function degradeForBudget(input: AnalysisInput, level: BudgetLevel): AnalysisInput {
+    if (level === 'reduced') {
+        const first = resolveProviderChain(input.mode)[0];
+        return first ? { ...input, providers: [first.name] } : input;
+    }
+
+    if (level !== 'minimal') {
+        return input;
+    }
+
+    const degraded: AnalysisInput =
+        input.mode === 'image' && (input.description?.trim().length ?? 0) >= CONFIG.MIN_TEXT_DESCRIPTION_LENGTH
+            ? { ...input, mode: 'text', images: undefined }
+            : input;
+
+    const cheapest = cheapestProvider(resolveProviderChain(degraded.mode));
+    return cheapest ? { ...degraded, providers: [cheapest.name] } : degraded;
+}
+
+function cheapestProvider(chain: AIProvider[]): AIProvider | undefined {
+    const typicalCost = (provider: AIProvider) =>
+        calculateCostInr({
+            model: provider.model,
+            input_tokens: CONFIG.TYPICAL_CALL_TOKENS.input,
+            output_tokens: CONFIG.TYPICAL_CALL_TOKENS.output,
+        });
+
+    return chain.reduce<AIProvider | undefined>(
+        (best, provider) => (!best || typicalCost(provider) < typicalCost(best) ? provider : best),
+        undefined
+    );
+}
+
+function userShare(usage: BudgetUsage): number {
+    if (usage.user_budget === null) {
+        return 0;
+    }
+    return usage.user_budget > 0 ? usage.user_cost / usage.user_budget : 1;
+}
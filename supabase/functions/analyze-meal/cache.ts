@@ -0,0 +1,57 @@
+// Content-addressed analysis cache keys
+// Same image bytes (or same description) + same providers + same prompt version = same key
+
+import { AnalysisMode } from './types.ts';
+import { CONFIG } from './config.ts';
+
+export interface CacheKeyParts {
+    mode: AnalysisMode;
+    imageHash?: string;  // From hashImages()
+    description?: string;
+    providerKey: string;  // e.g. "chain:gemini,openai" or "ensemble:gemini,openai"
+    personalContext?: string;  // Personal examples change the answer, so they key it too
+    labelAmount?: { servings?: number; grams?: number };  // Label mode: macros are for this amount
+}
+
+/**
+ * Builds the cache key for an analysis request
+ */
+export function buildCacheKey(parts: CacheKeyParts): Promise<string> {
+    return sha256Hex(new TextEncoder().encode(JSON.stringify([
+        CONFIG.PROMPT_VERSION,
+        parts.providerKey,
+        parts.mode,
+        parts.imageHash ?? null,
+        // In image mode the description is extra context, so it is part of the key too
+        normalizeDescription(parts.description),
+        parts.personalContext ?? null,
+        parts.labelAmount ?? null,
+    ])));
+}
+
+/**
+ * Content hash of the request's images, in request order
+ */
+export async function hashImages(imageBytes: Uint8Array[]): Promise<string> {
+    return (await Promise.all(imageBytes.map(sha256Hex))).join(',');
+}
+
+/**
+ * Normalizes a description so trivial differences ("2 Roti  with dal ") still hit
+ */
+export function normalizeDescription(description?: string): string | null {
+    if (!description) {
+        return null;
+    }
+    return description.trim().toLowerCase().replace(/\s+/g, ' ');
+}
+
+/**
+ * SHA-256 digest as a hex string
+ */
+export async function sha256Hex(bytes: Uint8Array): Promise<string> {
+    const digest = await crypto.subtle.digest('SHA-256', bytes as BufferSource);
+    return Array.from(new Uint8Array(digest))
+        .map((b) => b.toString(16).padStart(2, '0'))
+        .join('');
+}
@@ -1,18 +1,131 @@
 // Configuration constants for the analyze-meal function
 
+/**
+ * Reads a comma-separated provider chain from env (e.g. "gemini,openai")
+ */
+function providerChain(envVar: string, fallback: string[]): string[] {
+    const value = Deno.env.get(envVar);
+    if (!value) {
+        return fallback;
+    }
+    return value.split(',').map((name) => name.trim()).filter(Boolean);
+}
+
 export const CONFIG = {
-    // Rate limiting
-    RATE_LIMIT_DAILY: 7,
+    // Max photos of one meal per request (angles, side bowls)
+    MAX_IMAGES_PER_REQUEST: 4,
+
+    // Direct uploads (multipart or image_base64)
+    MAX_UPLOAD_BYTES: 10 * 1024 * 1024,
+    // Whole request body, checked from Content-Length before it's read:
+    // MAX_IMAGES_PER_REQUEST uploads of MAX_UPLOAD_BYTES, plus room for the form fields
+    MAX_REQUEST_BYTES: 4 * 10 * 1024 * 1024 + 64 * 1024,
+    ALLOWED_IMAGE_TYPES: ['image/jpeg', 'image/png', 'image/webp', 'image/heic'] as string[],
+    IMAGE_BUCKET: 'meal-images',  // Storage bucket used when store_image is set
+
+    // Images are downscaled before being sent to any provider
+    MAX_IMAGE_DIMENSION: 1536,            // Longest side in pixels
+    MAX_IMAGE_BYTES_FOR_AI: 1024 * 1024,  // Re-encode JPEG/PNG above this size (WebP/HEIC are sent as they are)
+    JPEG_QUALITY: 80,
+    JPEG_FALLBACK_QUALITY: 65,            // Second pass if still above the byte cap
+
+    // Shortest description accepted for text-only analysis
+    MIN_TEXT_DESCRIPTION_LENGTH: 10,
 
     // Cost controls (in INR) - TODO: RESTORE TO 80 BEFORE PRODUCTION!
     COST_LIMIT_MONTHLY_INR: 100,  // Temporarily disabled for development
 
-    // Estimated costs per image (in INR)
-    // Gemini Flash Vision: ~$0.0003-0.0005 per image = ₹0.025-0.04
-    GEMINI_COST_PER_IMAGE_INR: 0.03,
+    // Soft budget thresholds, as a share of the global limit above or the user's
+    // plan budget (whichever is closer). 'reduced' drops ensemble and fallbacks;
+    // 'minimal' uses only the cheapest provider, text-only when there's a description
+    BUDGET_REDUCED_AT: 0.75,
+    BUDGET_MINIMAL_AT: 0.9,
+    // Tokens of a typical analysis, for comparing provider prices
+    TYPICAL_CALL_TOKENS: { input: 1500, output: 500 },
+
+    // Token prices per model (INR per 1M tokens, at ~₹88/$)
+    // Gemini 2.5 Flash: $0.30 input / $2.50 output (thinking tokens bill as output)
+    // GPT-4o-mini: $0.15 input / $0.60 output
+    MODEL_PRICING_INR: {
+        'gemini-2.5-flash': { input_per_million: 26.4, output_per_million: 220 },
+        'gpt-4o-mini': { input_per_million: 13.2, output_per_million: 52.8 },
+    } as Record<string, { input_per_million: number; output_per_million: number }>,
+
+    // Used for models missing from the table - deliberately pessimistic
+    DEFAULT_PRICING_INR: { input_per_million: 26.4, output_per_million: 220 },
+
+    // Structured output: bounds for one analyzed meal (catch garbage, not big meals)
+    MAX_MEAL_CALORIES: 10000,
+    MAX_MEAL_MACRO_GRAMS: 1000,
+    // Calories may differ from 4/4/9 x macros by this share (or this many kcal) before
+    // the response is rejected and repaired
+    ENERGY_BALANCE_TOLERANCE: 0.3,
+    ENERGY_BALANCE_MIN_KCAL: 75,
+
+    // Plausibility checks (see plausibility.ts). Smaller 4/4/9 gaps than the one
+    // above are fixed by recomputing calories from the macros
+    PLAUSIBILITY_ENERGY_TOLERANCE: 0.15,
+    PLAUSIBILITY_ENERGY_MIN_KCAL: 40,
+    // Typical upper end of one meal - above this the estimate is flagged, not changed
+    PLAUSIBLE_MEAL_LIMITS: { calories: 2500, protein: 150, carbs: 350, fat: 150 },
+    // Item calories vs the food table for the same portion: flagged beyond the first
+    // factor, replaced by the table values beyond the second (estimates above the table only)
+    ITEM_REFERENCE_WARN_RATIO: 2,
+    ITEM_REFERENCE_REPLACE_RATIO: 4,
+    // Items below this reference are too small for the ratio to mean anything
+    ITEM_REFERENCE_MIN_KCAL: 30,
+
+    // Max relative gap between meal totals and the sum of items before
+    // the totals are replaced by the item sums
+    ITEM_TOTALS_TOLERANCE: 0.1,
+
+    // Ordered provider fallback chains. The next provider is tried when one
+    // fails or returns low confidence. Override with AI_IMAGE_PROVIDERS / AI_TEXT_PROVIDERS
+    IMAGE_PROVIDER_CHAIN: providerChain('AI_IMAGE_PROVIDERS', ['gemini', 'openai']),
+    TEXT_PROVIDER_CHAIN: providerChain('AI_TEXT_PROVIDERS', ['gemini', 'openai']),
+
+    // Ensemble mode (opt-in per request): providers run in parallel and their
+    // estimates are reconciled. Override with AI_ENSEMBLE_PROVIDERS
+    ENSEMBLE_PROVIDERS: providerChain('AI_ENSEMBLE_PROVIDERS', ['gemini', 'openai']),
+    // Disagreement score (relative spread) above which confidence drops one level
+    ENSEMBLE_DISAGREEMENT_THRESHOLD: 0.25,
+    // Disagreement score above which confidence is forced to low
+    ENSEMBLE_SEVERE_DISAGREEMENT: 0.5,
+
+    // Analysis cache - identical images/descriptions are served without a new AI call.
+    // Bump PROMPT_VERSION whenever a prompt changes so stale results are not served
+    CACHE_TTL_HOURS: 72,
+    PROMPT_VERSION: 'v4',
+
+    // Daily budget: calorie target = maintenance_calories + goal adjustment
+    GOAL_CALORIE_ADJUSTMENT: { cut: -500, maintain: 0, gain: 300 },
+    // "Today" for users who don't send utc_offset_minutes (IST)
+    DEFAULT_UTC_OFFSET_MINUTES: 330,
+
+    // Label mode: upper bounds for the amount eaten (catch typos, not real portions)
+    MAX_LABEL_SERVINGS: 20,
+    MAX_LABEL_GRAMS: 5000,
+
+    // Barcode lookups: catalogs tried in order (override with PRODUCT_CATALOGS).
+    // The HTTP catalog is Open Food Facts-compatible and only used when
+    // PRODUCT_CATALOG_URL is set (e.g. https://world.openfoodfacts.org, or a local stub)
+    PRODUCT_CATALOG_CHAIN: providerChain('PRODUCT_CATALOGS', ['products', 'openfoodfacts']),
+    PRODUCT_CATALOG_URL: Deno.env.get('PRODUCT_CATALOG_URL'),
+    PRODUCT_CATALOG_TIMEOUT_MS: 5000,
+
+    // Text-only analyses are computed from the bundled food table (food-table.ts).
+    // Bump when the table changes so cached results are recomputed
+    FOOD_TABLE_VERSION: 'v2',
+
+    // Personalization: the user's own logged meals as few-shot examples.
+    // The block is capped by characters (~4 chars per token) to bound prompt cost
+    PERSONAL_HISTORY_DAYS: 90,
+    PERSONAL_HISTORY_LIMIT: 50,      // Most recent meals considered for matching
+    PERSONAL_EXAMPLES_MAX: 5,
+    PERSONAL_CONTEXT_MAX_CHARS: 800,  // ~200 tokens
 
-    // OpenAI GPT-4o-mini Vision: ~$0.001 per image = ₹0.08-0.10
-    OPENAI_COST_PER_IMAGE_INR: 0.09,
+    // Async jobs: a queued/running job not updated for this long is reported as failed
+    JOB_STALE_AFTER_MS: 5 * 60 * 1000,
 
     // Confidence thresholds
     LOW_CONFIDENCE_THRESHOLD: 0.6,
@@ -0,0 +1,109 @@
+// Daily budget: how an analyzed meal fits the user's targets for today
+
+import { DailyBudget, MacroTotals, UserSettings } from './types.ts';
+import { getMealTotals, getUserSettings } from './database.ts';
+import { CONFIG } from './config.ts';
+
+/**
+ * Start and end (exclusive) of the user's current day, as UTC instants
+ */
+export function localDayBounds(utcOffsetMinutes: number, now = new Date()): { start: Date; end: Date } {
+    const offsetMs = utcOffsetMinutes * 60 * 1000;
+    const local = new Date(now.getTime() + offsetMs);
+    const localMidnight = Date.UTC(local.getUTCFullYear(), local.getUTCMonth(), local.getUTCDate());
+
+    const start = new Date(localMidnight - offsetMs);
+    const end = new Date(start.getTime() + 24 * 60 * 60 * 1000);
+    return { start, end };
+}
+
+/**
+ * Loads the user's profile and today's meals and builds the budget for this meal.
+ * Returns undefined when the user has no profile yet.
+ */
+export async function getDailyBudget(
+    userId: string,
+    meal: MacroTotals,
+    utcOffsetMinutes: number = CONFIG.DEFAULT_UTC_OFFSET_MINUTES
+): Promise<DailyBudget | undefined> {
+    const settings = await getUserSettings(userId);
+    if (!settings) {
+        return undefined;
+    }
+
+    const { start, end } = localDayBounds(utcOffsetMinutes);
+    const consumed = await getMealTotals(userId, start, end);
+
+    return buildDailyBudget(settings, consumed, meal);
+}
+
+/**
+ * Remaining calories/macros after this meal, plus a short goal-aware note
+ */
+export function buildDailyBudget(
+    settings: UserSettings,
+    consumed: MacroTotals,
+    meal: MacroTotals
+): DailyBudget {
+    const goal = settings.goal_mode ?? 'maintain';
+    const calorieTarget = settings.maintenance_calories + (CONFIG.GOAL_CALORIE_ADJUSTMENT[goal] ?? 0);
+
+    const remaining = {
+        calories: Math.round(calorieTarget - consumed.calories - meal.calories),
+        protein: Math.round((settings.protein_target - consumed.protein - meal.protein) * 10) / 10,
+        carbs: Math.round((settings.carbs_target - consumed.carbs - meal.carbs) * 10) / 10,
+        fat: Math.round((settings.fat_target - consumed.fat - meal.fat) * 10) / 10,
+    };
+
+    return {
+        goal_mode: goal,
+        calorie_target: calorieTarget,
+        remaining_calories: remaining.calories,
+        remaining_protein: remaining.protein,
+        remaining_carbs: remaining.carbs,
+        remaining_fat: remaining.fat,
+        note: budgetNote(settings, calorieTarget, meal, remaining.calories),
+    };
+}
+
+/**
+ * Picks the single most useful comment for this meal
+ */
+function budgetNote(
+    settings: UserSettings,
+    calorieTarget: number,
+    meal: MacroTotals,
+    remainingCalories: number
+): string {
+    const goal = settings.goal_mode ?? 'maintain';
+
+    if (remainingCalories < 0) {
+        return `Puts you ${-remainingCalories} kcal over today's target`;
+    }
+
+    if (meal.calories <= 0 || calorieTarget <= 0) {
+        return 'On track for today';
+    }
+
+    // Compare the meal's protein density (g per kcal) with the daily target's
+    const targetProteinDensity = settings.protein_target / calorieTarget;
+    const mealProteinDensity = meal.protein / meal.calories;
+    const lowProtein = mealProteinDensity < targetProteinDensity * 0.7;
+
+    const fatShare = (meal.fat * 9) / meal.calories;
+
+    if (goal === 'cut') {
+        if (lowProtein) return 'Low protein for a cut day';
+        if (fatShare > 0.4) return 'High in fat for a cut day';
+        return 'Good fit for a cut day';
+    }
+
+    if (goal === 'gain') {
+        if (lowProtein) return 'Low protein for a gain day';
+        if (remainingCalories > calorieTarget * 0.5) return 'Room for more - you still need plenty of calories today';
+        return 'Good fit for a gain day';
+    }
+
+    if (lowProtein) return 'Light on protein compared to your targets';
+    return 'On track for today';
+}
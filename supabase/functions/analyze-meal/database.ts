@@ -1,140 +1,425 @@
 // Database helper functions for Supabase operations
 
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.39.3';
-import { MacroEstimate, AIModel } from './types.ts';
+import {
+    AIModel,
+    AnalysisJob,
+    AnalysisMode,
+    AnalyzeMealResponse,
+    JobProgress,
+    JobStatus,
+    MealAnalysisRecord,
+    ModelCall,
+    PersonalMeal,
+    Product,
+    QuotaMode,
+    QuotaWindow,
+    UserSettings,
+    MacroTotals,
+} from './types.ts';
+import { ErrorResponse } from '../_shared/errors.ts';
 import { CONFIG } from './config.ts';
 
 const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
 const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
 
+export interface QuotaReservation {
+    allowed: boolean;
+    plan: string;
+    usage_date: string;  // Day the slot was reserved on (YYYY-MM-DD)
+    windows: QuotaWindow[];
+}
+
 /**
- * Get daily AI usage count for a user
+ * Atomically reserve one AI analysis slot for today, against the user's
+ * plan (and overrides). Every limit is checked in the same transaction,
+ * so concurrent requests can't both pass.
  */
-export async function getDailyUsageCount(userId: string): Promise<number> {
+export async function reserveAIQuota(userId: string, mode: QuotaMode): Promise<QuotaReservation> {
     const supabase = createClient(supabaseUrl, supabaseServiceKey);
 
-    const today = new Date().toISOString().split('T')[0]; // YYYY-MM-DD
+    const { data, error } = await supabase
+        .rpc('reserve_ai_quota', { p_user_id: userId, p_mode: mode })
+        .single();
+
+    if (error) throw error;
+
+    return toQuotaReservation(data as QuotaRow, mode);
+}
+
+/**
+ * The user's limits and usage without reserving anything (allowed = a
+ * reservation would succeed now), for responses that cost no quota
+ */
+export async function getAIQuota(userId: string, mode: QuotaMode): Promise<QuotaReservation> {
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
 
     const { data, error } = await supabase
-        .from('ai_usage')
-        .select('calls')
-        .eq('user_id', userId)
-        .eq('usage_date', today)
+        .rpc('get_ai_quota', { p_user_id: userId, p_mode: mode })
         .single();
 
-    if (error) {
-        // No record for today yet
-        if (error.code === 'PGRST116') {
-            return 0;
-        }
-        throw error;
+    if (error) throw error;
+
+    return toQuotaReservation(data as QuotaRow, mode);
+}
+
+interface QuotaRow {
+    allowed: boolean;
+    plan: string;
+    reserved_date: string;
+    daily_limit: number;
+    daily_used: number;
+    mode_limit: number | null;
+    mode_used: number;
+    monthly_limit: number;
+    monthly_used: number;
+}
+
+function toQuotaReservation(row: QuotaRow, mode: QuotaMode): QuotaReservation {
+    const windows: QuotaWindow[] = [{ window: 'daily', limit: row.daily_limit, used: row.daily_used }];
+    if (row.mode_limit !== null) {
+        windows.push({ window: `${mode}_daily`, limit: row.mode_limit, used: row.mode_used });
     }
+    windows.push({ window: 'monthly', limit: row.monthly_limit, used: row.monthly_used });
 
-    return data?.calls || 0;
+    return {
+        allowed: row.allowed,
+        plan: row.plan,
+        usage_date: row.reserved_date,
+        windows,
+    };
 }
 
 /**
- * Get monthly estimated cost in INR
+ * Release a reserved slot (analysis failed, so it shouldn't burn quota)
  */
-export async function getMonthlyEstimatedCost(): Promise<number> {
+export async function releaseAIQuota(userId: string, usageDate: string, mode: QuotaMode): Promise<void> {
     const supabase = createClient(supabaseUrl, supabaseServiceKey);
 
-    const now = new Date();
-    const firstDayOfMonth = new Date(now.getFullYear(), now.getMonth(), 1)
-        .toISOString()
-        .split('T')[0];
+    const { error } = await supabase
+        .rpc('release_ai_quota', { p_user_id: userId, p_usage_date: usageDate, p_mode: mode });
+
+    if (error) throw error;
+}
+
+export interface BudgetUsage {
+    global_cost: number;         // This month's AI spend across all users (INR)
+    user_cost: number;           // This month's AI spend for the user (INR)
+    user_budget: number | null;  // The user's monthly budget from their plan, null = none
+}
+
+/**
+ * This month's AI spend and the user's budget, read from the monthly
+ * counters kept by record_ai_calls (no scan over ai_usage)
+ */
+export async function getBudgetUsage(userId: string): Promise<BudgetUsage> {
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
 
     const { data, error } = await supabase
-        .from('ai_usage')
-        .select('estimated_cost')
-        .gte('usage_date', firstDayOfMonth);
+        .rpc('get_ai_budget', { p_user_id: userId })
+        .single();
 
     if (error) throw error;
 
-    const totalCost = data?.reduce((sum, record) => sum + (Number(record.estimated_cost) || 0), 0) || 0;
-    return totalCost;
+    const row = data as { global_cost: number | string; user_cost: number | string; user_budget: number | string | null };
+    return {
+        global_cost: Number(row.global_cost),
+        user_cost: Number(row.user_cost),
+        user_budget: row.user_budget === null ? null : Number(row.user_budget),
+    };
 }
 
 /**
- * Record AI usage and increment daily counter
+ * Record every model call made for an analysis and add their cost
+ * to the user's daily usage (one transaction, via RPC). requestId groups
+ * the calls of one analysis for the usage report.
  */
 export async function recordAIUsage(
     userId: string,
-    model: AIModel
+    usageDate: string,
+    mode: AnalysisMode,
+    requestId: string,
+    calls: ModelCall[]
 ): Promise<void> {
     const supabase = createClient(supabaseUrl, supabaseServiceKey);
 
-    const today = new Date().toISOString().split('T')[0];
-    const cost = model === 'gemini'
-        ? CONFIG.GEMINI_COST_PER_IMAGE_INR
-        : CONFIG.OPENAI_COST_PER_IMAGE_INR;
+    const { error } = await supabase
+        .rpc('record_ai_calls', {
+            p_user_id: userId,
+            p_usage_date: usageDate,
+            p_mode: mode,
+            p_request_id: requestId,
+            p_calls: calls,
+        });
 
-    // Try to update existing record
-    const { data: existing } = await supabase
-        .from('ai_usage')
-        .select('*')
-        .eq('user_id', userId)
-        .eq('usage_date', today)
+    if (error) throw error;
+}
+
+/**
+ * Get a cached analysis result (null on miss or expired entry)
+ */
+export async function getCachedAnalysis(cacheKey: string): Promise<AnalyzeMealResponse | null> {
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    const { data, error } = await supabase
+        .from('analysis_cache')
+        .select('result')
+        .eq('cache_key', cacheKey)
+        .gt('expires_at', new Date().toISOString())
+        .maybeSingle();
+
+    if (error) throw error;
+
+    return data?.result ?? null;
+}
+
+/**
+ * Store an analysis result in the cache
+ */
+export async function saveCachedAnalysis(
+    cacheKey: string,
+    provider: string,
+    result: AnalyzeMealResponse
+): Promise<void> {
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    const now = new Date();
+    const expiresAt = new Date(now.getTime() + CONFIG.CACHE_TTL_HOURS * 60 * 60 * 1000);
+
+    const { error } = await supabase
+        .from('analysis_cache')
+        .upsert({
+            cache_key: cacheKey,
+            provider,
+            prompt_version: CONFIG.PROMPT_VERSION,
+            result,
+            created_at: now.toISOString(),
+            expires_at: expiresAt.toISOString(),
+        });
+
+    if (error) throw error;
+}
+
+/**
+ * Store what an analysis returned (the basis for user corrections)
+ */
+export async function saveMealAnalysis(record: MealAnalysisRecord): Promise<void> {
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    const { error } = await supabase
+        .from('meal_analyses')
+        .insert(record);
+
+    if (error) throw error;
+}
+
+/**
+ * Create a queued async analysis job, returns its id
+ */
+export async function createAnalysisJob(userId: string): Promise<string> {
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    const { data, error } = await supabase
+        .from('analysis_jobs')
+        .insert({ user_id: userId, status: 'queued', stage: 'queued' })
+        .select('id')
         .single();
 
-    if (existing) {
-        // Update existing record
-        const { error } = await supabase
-            .from('ai_usage')
-            .update({
-                calls: existing.calls + 1,
-                estimated_cost: Number(existing.estimated_cost) + cost,
-            })
-            .eq('user_id', userId)
-            .eq('usage_date', today);
-
-        if (error) throw error;
-    } else {
-        // Insert new record
-        const { error } = await supabase
-            .from('ai_usage')
-            .insert({
-                user_id: userId,
-                usage_date: today,
-                calls: 1,
-                estimated_cost: cost,
-            });
-
-        if (error) throw error;
+    if (error) throw error;
+
+    return data.id;
+}
+
+/**
+ * Update a job's status, progress or outcome
+ */
+export async function updateAnalysisJob(
+    jobId: string,
+    update: {
+        stage?: JobProgress['stage'];
+        provider?: AIModel | null;
+        status?: JobStatus;
+        result?: AnalyzeMealResponse;
+        error?: ErrorResponse;
+        http_status?: number;
     }
+): Promise<void> {
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    const { error } = await supabase
+        .from('analysis_jobs')
+        .update({ ...update, updated_at: new Date().toISOString() })
+        .eq('id', jobId);
+
+    if (error) throw error;
+}
+
+/**
+ * Get one of the user's jobs (null when unknown or someone else's)
+ */
+export async function getAnalysisJob(jobId: string, userId: string): Promise<AnalysisJob | null> {
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    const { data, error } = await supabase
+        .from('analysis_jobs')
+        .select('id, status, stage, provider, result, error, http_status, created_at, updated_at')
+        .eq('id', jobId)
+        .eq('user_id', userId)
+        .maybeSingle();
+
+    if (error) throw error;
+    if (!data) return null;
+
+    const { id, ...job } = data;
+    return { job_id: id, ...job };
+}
+
+/**
+ * Look up a packaged product in the local catalog (null when unknown)
+ */
+export async function getProduct(barcode: string): Promise<Product | null> {
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    const { data, error } = await supabase
+        .from('products')
+        .select('barcode, product_name, serving_grams, per_100g, per_serving, source')
+        .eq('barcode', barcode)
+        .maybeSingle();
+
+    if (error) throw error;
+    if (!data) return null;
+
+    return {
+        barcode: data.barcode,
+        product_name: data.product_name ?? undefined,
+        serving_grams: data.serving_grams !== null ? Number(data.serving_grams) : undefined,
+        per_100g: data.per_100g ?? undefined,
+        per_serving: data.per_serving ?? undefined,
+        source: data.source,
+    };
+}
+
+/**
+ * Store a product in the local catalog (remote lookups are kept here)
+ */
+export async function saveProduct(product: Product): Promise<void> {
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    const { error } = await supabase
+        .from('products')
+        .upsert({
+            barcode: product.barcode,
+            product_name: product.product_name ?? null,
+            serving_grams: product.serving_grams ?? null,
+            per_100g: product.per_100g ?? null,
+            per_serving: product.per_serving ?? null,
+            source: product.source,
+            updated_at: new Date().toISOString(),
+        });
+
+    if (error) throw error;
 }
 
 /**
- * Save meal to database
+ * Upload a meal image to Storage, returns its path in the bucket
  */
-export async function saveMeal(
+export async function uploadMealImage(
     userId: string,
-    imageUrl: string,
-    description: string | undefined,
-    macros: MacroEstimate,
-    aiModel: AIModel
+    bytes: Uint8Array,
+    mimeType: string
 ): Promise<string> {
     const supabase = createClient(supabaseUrl, supabaseServiceKey);
 
+    const extension = mimeType.split('/')[1] ?? 'jpg';
+    const path = `${userId}/${Date.now()}-${crypto.randomUUID()}.${extension}`;
+
+    const { error } = await supabase.storage
+        .from(CONFIG.IMAGE_BUCKET)
+        .upload(path, bytes, { contentType: mimeType });
+
+    if (error) throw error;
+
+    return path;
+}
+
+/**
+ * Remove stored meal images (e.g. a partly stored upload)
+ */
+export async function deleteMealImages(paths: string[]): Promise<void> {
+    if (paths.length === 0) {
+        return;
+    }
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    const { error } = await supabase.storage.from(CONFIG.IMAGE_BUCKET).remove(paths);
+
+    if (error) throw error;
+}
+
+/**
+ * Get the user's profile and targets (null if they haven't set one up)
+ */
+export async function getUserSettings(userId: string): Promise<UserSettings | null> {
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    const { data, error } = await supabase
+        .from('user_settings')
+        .select('maintenance_calories, protein_target, carbs_target, fat_target, goal_mode, weight_kg, activity_level, personalize_estimates')
+        .eq('user_id', userId)
+        .maybeSingle();
+
+    if (error) throw error;
+
+    return data;
+}
+
+/**
+ * The user's most recent logged meals that have a name to match against
+ */
+export async function getPersonalMeals(userId: string, since: Date, limit: number): Promise<PersonalMeal[]> {
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
     const { data, error } = await supabase
         .from('meals')
-        .insert({
-            user_id: userId,
-            image_url: imageUrl,
-            description: description || null,
-            calories: macros.calories,
-            protein: macros.protein,
-            carbs: macros.carbs,
-            fat: macros.fat,
-            confidence: macros.confidence,
-            source: 'ai',
-            // Note: ai_model_used column doesn't exist in current schema
-            // Can be added later if needed
-        })
-        .select('id')
-        .single();
+        .select('description, meal_description, calories, protein, carbs, fat, user_edited, created_at')
+        .eq('user_id', userId)
+        .gte('created_at', since.toISOString())
+        .or('description.not.is.null,meal_description.not.is.null')
+        .order('created_at', { ascending: false })
+        .limit(limit);
 
     if (error) throw error;
 
-    return data.id;
+    return data ?? [];
+}
+
+/**
+ * Sum the macros of meals logged in [dayStart, dayEnd)
+ */
+export async function getMealTotals(
+    userId: string,
+    dayStart: Date,
+    dayEnd: Date
+): Promise<MacroTotals> {
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    const { data, error } = await supabase
+        .from('meals')
+        .select('calories, protein, carbs, fat')
+        .eq('user_id', userId)
+        .gte('created_at', dayStart.toISOString())
+        .lt('created_at', dayEnd.toISOString());
+
+    if (error) throw error;
+
+    return (data ?? []).reduce(
+        (sum, meal) => ({
+            calories: sum.calories + (Number(meal.calories) || 0),
+            protein: sum.protein + (Number(meal.protein) || 0),
+            carbs: sum.carbs + (Number(meal.carbs) || 0),
+            fat: sum.fat + (Number(meal.fat) || 0),
+        }),
+        { calories: 0, protein: 0, carbs: 0, fat: 0 }
+    );
 }
@@ -0,0 +1,197 @@
+// Ensemble mode: run several providers in parallel and reconcile their estimates
+
+import { AIProvider, AnalysisInput, MacroEstimate, ModelCall, Nutrients, ProgressReporter } from './types.ts';
+import { resolveProviders, ProviderChainError } from './providers.ts';
+import { scaleItemsToTotals } from './meal-items.ts';
+import { NUTRIENT_KEYS, roundNutrient } from './nutrients.ts';
+import { buildModelCall, usageFromError } from './pricing.ts';
+import { CONFIG } from './config.ts';
+import { log } from '../_shared/logger.ts';
+
+type Confidence = MacroEstimate['confidence'];
+
+const CONFIDENCE_LEVELS: Confidence[] = ['low', 'medium', 'high'];
+
+// Higher-confidence estimates pull the weighted median harder
+const CONFIDENCE_WEIGHTS: Record<Confidence, number> = {
+    low: 1,
+    medium: 2,
+    high: 3,
+};
+
+// Spreads below these absolute values are treated as agreement,
+// so 2g vs 4g of fat doesn't count as a 100% disagreement
+const SPREAD_FLOORS = {
+    calories: 50,
+    protein: 5,
+    carbs: 5,
+    fat: 5,
+} as const;
+
+const MACRO_KEYS = ['calories', 'protein', 'carbs', 'fat'] as const;
+
+export interface EnsembleResult {
+    macros: MacroEstimate;
+    succeeded: AIProvider[];  // Providers whose estimates were combined
+    disagreement?: number;    // Unset when only one provider succeeded - nothing was reconciled
+}
+
+/**
+ * Resolves the configured ensemble providers for the input's mode
+ */
+export function resolveEnsembleProviders(input: AnalysisInput): AIProvider[] {
+    return resolveProviders(CONFIG.ENSEMBLE_PROVIDERS, input.mode);
+}
+
+/**
+ * Runs all given providers in parallel and reconciles the successful estimates.
+ * With a single success its estimate is returned as it is.
+ * Every call made is appended to `calls` for cost accounting.
+ */
+export async function runEnsemble(
+    input: AnalysisInput,
+    providers: AIProvider[],
+    calls: ModelCall[],
+    onProgress?: ProgressReporter
+): Promise<EnsembleResult> {
+    log.info('Running ensemble', { providers: providers.map((p) => p.name) });
+    onProgress?.({ stage: 'analyzing', provider: providers.map((p) => p.name).join('+') });
+
+    // All providers start together; each call's latency ends when it settles
+    const startedAt = Date.now();
+    const latencies: number[] = [];
+    const settled = await Promise.allSettled(providers.map((provider, index) =>
+        provider.analyze(input).finally(() => {
+            latencies[index] = Date.now() - startedAt;
+        })
+    ));
+
+    const estimates: MacroEstimate[] = [];
+    const succeeded: AIProvider[] = [];
+    settled.forEach((result, index) => {
+        if (result.status === 'fulfilled') {
+            estimates.push(result.value.macros);
+            succeeded.push(providers[index]);
+            calls.push(buildModelCall(providers[index].name, result.value.usage, 'used', latencies[index]));
+        } else {
+            log.error('Ensemble call failed', { provider: providers[index].name, error: result.reason });
+            calls.push(buildModelCall(providers[index].name, usageFromError(result.reason), 'failed', latencies[index]));
+        }
+    });
+
+    if (estimates.length === 0) {
+        throw new ProviderChainError(`All ensemble providers failed for ${input.mode} mode`);
+    }
+    if (estimates.length === 1) {
+        log.warn('Only one ensemble provider succeeded, returning its estimate', { provider: succeeded[0].name });
+        return { macros: estimates[0], succeeded };
+    }
+
+    const { macros, disagreement } = reconcileEstimates(estimates);
+    log.info('Ensemble reconciled', { disagreement, confidence: macros.confidence });
+
+    return { macros, succeeded, disagreement };
+}
+
+/**
+ * Combines estimates with a confidence-weighted median per macro.
+ * Large disagreements between models lower the combined confidence.
+ */
+export function reconcileEstimates(
+    estimates: MacroEstimate[]
+): { macros: MacroEstimate; disagreement: number } {
+    const weights = estimates.map((e) => CONFIDENCE_WEIGHTS[e.confidence]);
+
+    const combined = {
+        calories: Math.round(weightedMedian(estimates.map((e) => e.calories), weights)),
+        protein: Math.round(weightedMedian(estimates.map((e) => e.protein), weights) * 10) / 10,
+        carbs: Math.round(weightedMedian(estimates.map((e) => e.carbs), weights) * 10) / 10,
+        fat: Math.round(weightedMedian(estimates.map((e) => e.fat), weights) * 10) / 10,
+    };
+
+    // Relative spread per macro; the worst one is the disagreement score
+    const disagreement = Math.max(
+        ...MACRO_KEYS.map((key) => {
+            const values = estimates.map((e) => e[key]);
+            const spread = Math.max(...values) - Math.min(...values);
+            if (spread <= SPREAD_FLOORS[key]) {
+                return 0;
+            }
+            return spread / Math.max(combined[key], SPREAD_FLOORS[key]);
+        })
+    );
+
+    // Start from the lower median confidence, then penalize disagreement
+    const ranks = estimates
+        .map((e) => CONFIDENCE_LEVELS.indexOf(e.confidence))
+        .sort((a, b) => a - b);
+    let rank = ranks[Math.floor((ranks.length - 1) / 2)];
+    if (disagreement > CONFIG.ENSEMBLE_SEVERE_DISAGREEMENT) {
+        rank = 0;
+    } else if (disagreement > CONFIG.ENSEMBLE_DISAGREEMENT_THRESHOLD) {
+        rank = Math.max(0, rank - 1);
+    }
+
+    // Description and items come from the estimate closest to the combined calories,
+    // with the items scaled so they still add up to the combined totals
+    const closest = estimates.reduce((best, e) =>
+        Math.abs(e.calories - combined.calories) < Math.abs(best.calories - combined.calories) ? e : best
+    );
+
+    return {
+        macros: {
+            ...combined,
+            confidence: CONFIDENCE_LEVELS[rank],
+            meal_description: closest.meal_description,
+            items: closest.items && scaleItemsToTotals(closest.items, combined),
+            nutrients: reconcileNutrients(estimates, weights),
+        },
+        disagreement: Math.round(disagreement * 100) / 100,
+    };
+}
+
+/**
+ * Weighted median per nutrient, over the models that estimated it
+ */
+function reconcileNutrients(estimates: MacroEstimate[], weights: number[]): Nutrients | undefined {
+    const combined: Nutrients = {};
+
+    for (const key of NUTRIENT_KEYS) {
+        const present = estimates
+            .map((e, i) => ({ value: e.nutrients?.[key], weight: weights[i] }))
+            .filter((p): p is { value: number; weight: number } => p.value !== undefined);
+
+        if (present.length > 0) {
+            combined[key] = roundNutrient(
+                key,
+                weightedMedian(present.map((p) => p.value), present.map((p) => p.weight))
+            );
+        }
+    }
+
+    return Object.keys(combined).length > 0 ? combined : undefined;
+}
+
+/**
+ * Weighted median: the value where cumulative weight first reaches half the total
+ */
+function weightedMedian(values: number[], weights: number[]): number {
+    const pairs = values
+        .map((value, i) => ({ value, weight: weights[i] }))
+        .sort((a, b) => a.value - b.value);
+
+    const half = pairs.reduce((sum, p) => sum + p.weight, 0) / 2;
+    let cumulative = 0;
+    for (let i = 0; i < pairs.length; i++) {
+        cumulative += pairs[i].weight;
+        if (cumulative === half && i + 1 < pairs.length) {
+            // Exactly balanced - average the two middle values
+            return (pairs[i].value + pairs[i + 1].value) / 2;
+        }
+        if (cumulative > half) {
+            return pairs[i].value;
+        }
+    }
+
+    return pairs[pairs.length - 1].value;
+}
@@ -0,0 +1,66 @@
+// Tests for food table matching and grounding
+// Run: deno test --allow-env supabase/functions
+
+import { assertEquals } from 'https://deno.land/std@0.168.0/testing/asserts.ts';
+import { groundFood, matchFood } from './food-grounding.ts';
+
+Deno.test('matchFood finds exact aliases and plain variants', () => {
+    const cases: [string, string][] = [
+        ['rice', 'Rice (cooked)'],
+        ['Chawal', 'Rice (cooked)'],
+        ['steamed rice', 'Rice (cooked)'],
+        ['plain steamed rice', 'Rice (cooked)'],
+        ['home made curd', 'Curd'],
+        ['rotis', 'Roti'],
+        ['masala dosa', 'Masala dosa'],
+        ['dal tadka', 'Dal (cooked)'],
+        ['tea', 'Tea with milk and sugar'],
+        ['milk', 'Milk (toned)'],
+    ];
+    for (const [name, expected] of cases) {
+        assertEquals(matchFood(name)?.name, expected, name);
+    }
+});
+
+Deno.test('matchFood leaves other foods with the same last word to the LLM', () => {
+    const names = [
+        'green tea',
+        'black tea',
+        'lemon tea',
+        'coconut milk',
+        'almond milk',
+        'curd rice',
+        'lemon rice',
+        'egg fried rice',
+        'dahi vada',
+        'rice kheer',
+        'plain lemon rice',
+        'pizza',
+    ];
+    for (const name of names) {
+        assertEquals(matchFood(name), undefined, name);
+    }
+});
+
+Deno.test('groundFood scales table values to the portion', () => {
+    assertEquals(groundFood({ food: 'rice', quantity: 200, unit: 'g' })?.item, {
+        name: 'Rice (cooked)',
+        portion_grams: 200,
+        portion_pieces: undefined,
+        calories: 260,
+        protein: 5.4,
+        carbs: 56.4,
+        fat: 0.6,
+    });
+
+    const roti = groundFood({ food: 'roti', quantity: 2, unit: 'pieces' });
+    assertEquals(roti?.item.portion_grams, 70);
+    assertEquals(roti?.item.portion_pieces, 2);
+    assertEquals(roti?.item.calories, 196);
+});
+
+Deno.test('groundFood returns null for unknown foods and units', () => {
+    assertEquals(groundFood({ food: 'green tea', quantity: 1, unit: 'cup' }), null);
+    assertEquals(groundFood({ food: 'dal', quantity: 2, unit: 'pieces' }), null);
+    assertEquals(groundFood({ food: 'rice', quantity: 1, unit: 'plate' }), null);
+});
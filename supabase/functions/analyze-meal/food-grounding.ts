@@ -0,0 +1,221 @@
+// Deterministic nutrition for text-only analyses
+// The LLM only splits the description into (food, quantity, unit, preparation);
+// macros come from the bundled food table, so "300g rice with 200g dal" gives
+// the same answer every time. Foods the table can't cover fall back to the
+// regular LLM estimate, for those foods only.
+
+import {
+    AIModel,
+    AnalysisInput,
+    FoodEntry,
+    MacroEstimate,
+    MealItem,
+    ModelCall,
+    Nutrients,
+    ParsedFood,
+    ProgressReporter,
+} from './types.ts';
+import { FOOD_TABLE } from './food-table.ts';
+import { normalizeUnit, toGrams } from './units.ts';
+import { scaleNutrients, sumNutrients } from './nutrients.ts';
+import { sumItems } from './meal-items.ts';
+import { resolveProviderChain, runProviderChain } from './providers.ts';
+import { buildModelCall, usageFromError } from './pricing.ts';
+import { log } from '../_shared/logger.ts';
+
+export interface GroundedFood {
+    item: MealItem;
+    nutrients?: Nutrients;
+}
+
+export interface GroundedAnalysis {
+    macros: MacroEstimate;
+    aiModel: AIModel;  // 'food-table', 'food-table+<provider>' or just the provider when parsing failed
+}
+
+// Preparations the table's home-style values don't account for - such foods
+// are estimated by the LLM instead of reported with plain table values
+const EXTRA_FAT_PREPARATION = /\b(fried|deep|ghee|butter|cream|malai)\b/i;
+
+// Words that may precede a table alias without changing the food:
+// "steamed rice" is rice, but "lemon rice" and "green tea" are other foods
+const PLAIN_WORDS = new Set(['plain', 'simple', 'steamed', 'boiled', 'cooked', 'homemade', 'home', 'made', 'fresh']);
+
+// Normalized alias → table entry
+const FOODS_BY_ALIAS = new Map(
+    FOOD_TABLE.flatMap((entry) => entry.aliases.map((alias) => [normalizeName(alias), entry] as const))
+);
+
+const CONFIDENCE_ORDER = ['low', 'medium', 'high'] as const;
+
+/**
+ * Text-only analysis grounded in the food table. Every model call is appended to `calls`.
+ */
+export async function runGroundedTextAnalysis(
+    input: AnalysisInput,
+    calls: ModelCall[],
+    onProgress?: ProgressReporter
+): Promise<GroundedAnalysis> {
+    const foods = await parseFoods(input.description!, input.providers, calls, onProgress);
+
+    // Couldn't parse at all - plain LLM estimate of the whole description
+    if (!foods || foods.length === 0) {
+        const result = await runProviderChain(input, calls, onProgress);
+        return { macros: result.macros, aiModel: result.provider.name };
+    }
+
+    const items: MealItem[] = [];
+    const nutrientParts: (Nutrients | undefined)[] = [];
+    const unmatched: ParsedFood[] = [];
+    let confidence: MacroEstimate['confidence'] = 'high';
+
+    for (const food of foods) {
+        const grounded = food.preparation && EXTRA_FAT_PREPARATION.test(food.preparation) ? null : groundFood(food);
+        if (!grounded) {
+            unmatched.push(food);
+            continue;
+        }
+        items.push(grounded.item);
+        nutrientParts.push(grounded.nutrients);
+    }
+
+    let aiModel: AIModel = 'food-table';
+
+    if (unmatched.length > 0) {
+        // Food names come from the user's description
+        log.info('Foods not in food table, estimating with AI', { count: unmatched.length });
+        log.debug('Foods not in food table', { foods: unmatched.map((food) => food.food) });
+        const fallback = await runProviderChain(
+            { ...input, description: unmatched.map(describeFood).join(', ') },
+            calls,
+            onProgress
+        );
+        const { macros } = fallback;
+
+        items.push(...(macros.items ?? [{
+            name: unmatched.map((food) => food.food).join(', '),
+            calories: macros.calories,
+            protein: macros.protein,
+            carbs: macros.carbs,
+            fat: macros.fat,
+        }]));
+        nutrientParts.push(macros.nutrients);
+        confidence = lowerConfidence(confidence, macros.confidence);
+        aiModel = `food-table+${fallback.provider.name}`;
+    }
+
+    return {
+        macros: {
+            ...sumItems(items),
+            confidence,
+            meal_description: foods.map(describeFood).join(', '),
+            items,
+            nutrients: sumNutrients(nutrientParts),
+        },
+        aiModel,
+    };
+}
+
+/**
+ * Finds a food in the table by exact alias, after dropping leading words that
+ * don't change the food ("plain steamed rice" → rice). Any other extra word
+ * makes it a different food ("lemon rice", "green tea"), which the table
+ * doesn't cover.
+ */
+export function matchFood(name: string): FoodEntry | undefined {
+    const words = normalizeName(name).split(' ');
+
+    for (let start = 0; start < words.length; start++) {
+        const entry = FOODS_BY_ALIAS.get(words.slice(start).join(' '));
+        if (entry || !PLAIN_WORDS.has(words[start])) {
+            return entry;
+        }
+    }
+    return undefined;
+}
+
+/**
+ * Macros and nutrients of one parsed food from the table, or null when
+ * the food isn't in the table or its unit can't be converted
+ */
+export function groundFood(food: ParsedFood): GroundedFood | null {
+    const entry = matchFood(food.food);
+    if (!entry) {
+        return null;
+    }
+
+    const grams = toGrams(food.quantity, food.unit, entry);
+    if (grams === null) {
+        return null;
+    }
+
+    const factor = grams / 100;
+    return {
+        item: {
+            name: entry.name,
+            portion_grams: Math.round(grams),
+            portion_pieces: normalizeUnit(food.unit) === 'piece' ? food.quantity : undefined,
+            calories: Math.round(entry.calories * factor),
+            protein: Math.round(entry.protein * factor * 10) / 10,
+            carbs: Math.round(entry.carbs * factor * 10) / 10,
+            fat: Math.round(entry.fat * factor * 10) / 10,
+        },
+        nutrients: scaleNutrients(entry.nutrients, grams),
+    };
+}
+
+/**
+ * Runs the parse step along the text provider chain (or the given providers);
+ * null when every provider failed
+ */
+async function parseFoods(
+    description: string,
+    providers: AIModel[] | undefined,
+    calls: ModelCall[],
+    onProgress?: ProgressReporter
+): Promise<ParsedFood[] | null> {
+    let attempted = false;
+    for (const provider of resolveProviderChain('text', providers)) {
+        if (!provider.parseFoods) {
+            continue;
+        }
+
+        onProgress?.({ stage: attempted ? 'fallback' : 'analyzing', provider: provider.name });
+        const fallback = attempted;
+        attempted = true;
+
+        const startedAt = Date.now();
+        try {
+            log.info('Parsing foods', { provider: provider.name });
+            const { foods, usage } = await provider.parseFoods(description);
+            calls.push(buildModelCall(provider.name, usage, 'used', Date.now() - startedAt, fallback));
+            return foods;
+        } catch (error) {
+            log.error('Food parsing failed', { provider: provider.name, error });
+            calls.push(buildModelCall(provider.name, usageFromError(error), 'failed', Date.now() - startedAt, fallback));
+        }
+    }
+    return null;
+}
+
+function describeFood(food: ParsedFood): string {
+    const amount = `${food.quantity} ${food.unit}`;
+    return food.preparation ? `${amount} ${food.food} (${food.preparation})` : `${amount} ${food.food}`;
+}
+
+function normalizeName(name: string): string {
+    return name
+        .toLowerCase()
+        .split(/[^a-z]+/)
+        .filter(Boolean)
+        // Crude plural folding so "rotis" and "idlis" match
+        .map((word) => (word.length > 4 && word.endsWith('s') ? word.slice(0, -1) : word))
+        .join(' ');
+}
+
+function lowerConfidence(
+    a: MacroEstimate['confidence'],
+    b: MacroEstimate['confidence']
+): MacroEstimate['confidence'] {
+    return CONFIDENCE_ORDER.indexOf(a) < CONFIDENCE_ORDER.indexOf(b) ? a : b;
+}
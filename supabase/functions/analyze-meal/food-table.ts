@@ -0,0 +1,82 @@
+// Bundled food composition table for grounding text-only analyses
+// Per 100g as eaten (cooked dishes include typical home-style oil/ghee and salt).
+// Nutrients: fiber, sugar, saturated fat in g; sodium in mg.
+// Values follow IFCT 2017 and standard home recipes - reference values, not lab data.
+// Bump CONFIG.FOOD_TABLE_VERSION when editing so cached results are recomputed.
+
+import { FoodEntry } from './types.ts';
+
+export const FOOD_TABLE: FoodEntry[] = [
+    // Rice and grains
+    { name: 'Rice (cooked)', aliases: ['rice', 'white rice', 'plain rice', 'steamed rice', 'boiled rice', 'chawal', 'bhaat', 'sadam'], calories: 130, protein: 2.7, carbs: 28.2, fat: 0.3, nutrients: { fiber: 0.4, sugar: 0.1, saturated_fat: 0.1, sodium: 1 }, density: 0.7 },
+    { name: 'Brown rice (cooked)', aliases: ['brown rice'], calories: 112, protein: 2.6, carbs: 23.5, fat: 0.9, nutrients: { fiber: 1.8, sugar: 0.4, saturated_fat: 0.2, sodium: 5 }, density: 0.7 },
+    { name: 'Jeera rice', aliases: ['jeera rice', 'cumin rice'], calories: 160, protein: 3, carbs: 28, fat: 4, nutrients: { fiber: 0.6, sugar: 0.2, saturated_fat: 1.5, sodium: 200 }, density: 0.7 },
+    { name: 'Veg pulao', aliases: ['pulao', 'veg pulao', 'vegetable pulao', 'pulav'], calories: 150, protein: 3, carbs: 25, fat: 4, nutrients: { fiber: 1.2, sugar: 1, saturated_fat: 1.2, sodium: 250 }, density: 0.7 },
+    { name: 'Chicken biryani', aliases: ['biryani', 'chicken biryani'], calories: 170, protein: 8, carbs: 20, fat: 6.5, nutrients: { fiber: 1, sugar: 1, saturated_fat: 2, sodium: 350 }, density: 0.75 },
+    { name: 'Khichdi', aliases: ['khichdi', 'khichri', 'dal khichdi'], calories: 120, protein: 4.5, carbs: 20, fat: 2.5, nutrients: { fiber: 1.8, sugar: 0.5, saturated_fat: 1, sodium: 250 }, density: 0.9 },
+    { name: 'Poha', aliases: ['poha', 'kanda poha', 'aval'], calories: 130, protein: 2.5, carbs: 22, fat: 3.5, nutrients: { fiber: 1.5, sugar: 1.5, saturated_fat: 0.5, sodium: 280 }, density: 0.6 },
+    { name: 'Upma', aliases: ['upma', 'rava upma', 'suji upma'], calories: 130, protein: 3, carbs: 18, fat: 5, nutrients: { fiber: 1.5, sugar: 1, saturated_fat: 1, sodium: 300 }, density: 0.8 },
+    { name: 'Oats porridge', aliases: ['oats', 'oatmeal', 'oats porridge', 'porridge'], calories: 70, protein: 2.5, carbs: 12, fat: 1.4, nutrients: { fiber: 1.7, sugar: 0.3, saturated_fat: 0.3, sodium: 5 } },
+
+    // Breads
+    { name: 'Roti', aliases: ['roti', 'chapati', 'chapatti', 'phulka', 'fulka', 'wheat roti'], calories: 280, protein: 9, carbs: 53, fat: 4, nutrients: { fiber: 5, sugar: 1, saturated_fat: 0.7, sodium: 120 }, piece_grams: 35 },
+    { name: 'Plain paratha', aliases: ['paratha', 'plain paratha', 'parantha'], calories: 326, protein: 6.4, carbs: 45, fat: 13, nutrients: { fiber: 4, sugar: 1, saturated_fat: 4, sodium: 300 }, piece_grams: 80 },
+    { name: 'Aloo paratha', aliases: ['aloo paratha', 'potato paratha'], calories: 260, protein: 5.5, carbs: 35, fat: 11, nutrients: { fiber: 3, sugar: 1.5, saturated_fat: 3.5, sodium: 350 }, piece_grams: 120 },
+    { name: 'Puri', aliases: ['puri', 'poori'], calories: 350, protein: 6, carbs: 40, fat: 18, nutrients: { fiber: 3, sugar: 1, saturated_fat: 2.5, sodium: 250 }, piece_grams: 25 },
+    { name: 'Naan', aliases: ['naan', 'nan', 'butter naan'], calories: 290, protein: 9, carbs: 50, fat: 6, nutrients: { fiber: 2, sugar: 3, saturated_fat: 1.5, sodium: 450 }, piece_grams: 90 },
+    { name: 'Bread', aliases: ['bread', 'bread slice', 'white bread', 'brown bread'], calories: 265, protein: 9, carbs: 49, fat: 3.2, nutrients: { fiber: 2.7, sugar: 5, saturated_fat: 0.7, sodium: 490 }, piece_grams: 25 },
+
+    // South Indian
+    { name: 'Plain dosa', aliases: ['dosa', 'plain dosa', 'sada dosa'], calories: 168, protein: 3.9, carbs: 29, fat: 3.7, nutrients: { fiber: 1.5, sugar: 0.5, saturated_fat: 0.6, sodium: 330 }, piece_grams: 80 },
+    { name: 'Masala dosa', aliases: ['masala dosa'], calories: 165, protein: 3.5, carbs: 24, fat: 6.5, nutrients: { fiber: 1.8, sugar: 1.5, saturated_fat: 1.2, sodium: 380 }, piece_grams: 180 },
+    { name: 'Idli', aliases: ['idli', 'idly'], calories: 130, protein: 4, carbs: 27, fat: 0.4, nutrients: { fiber: 1.5, sugar: 0.2, saturated_fat: 0.1, sodium: 250 }, piece_grams: 40 },
+    { name: 'Medu vada', aliases: ['vada', 'medu vada', 'vadai'], calories: 300, protein: 9, carbs: 30, fat: 16, nutrients: { fiber: 4, sugar: 1, saturated_fat: 2, sodium: 350 }, piece_grams: 50 },
+    { name: 'Sambar', aliases: ['sambar', 'sambhar'], calories: 65, protein: 3, carbs: 9, fat: 2, nutrients: { fiber: 2, sugar: 2, saturated_fat: 0.4, sodium: 350 } },
+    { name: 'Rasam', aliases: ['rasam'], calories: 30, protein: 1, carbs: 5, fat: 1, nutrients: { fiber: 0.5, sugar: 1, saturated_fat: 0.3, sodium: 400 } },
+
+    // Dals and legumes
+    { name: 'Dal (cooked)', aliases: ['dal', 'daal', 'dhal', 'toor dal', 'arhar dal', 'moong dal', 'masoor dal', 'yellow dal', 'dal tadka', 'dal fry'], calories: 110, protein: 6.5, carbs: 16, fat: 2.5, nutrients: { fiber: 2.5, sugar: 1, saturated_fat: 0.8, sodium: 300 } },
+    { name: 'Dal makhani', aliases: ['dal makhani', 'dal makhni'], calories: 140, protein: 6, carbs: 14, fat: 7, nutrients: { fiber: 3, sugar: 1.5, saturated_fat: 4, sodium: 350 } },
+    { name: 'Rajma curry', aliases: ['rajma', 'rajma curry', 'kidney beans'], calories: 120, protein: 6, carbs: 16, fat: 3.5, nutrients: { fiber: 4.5, sugar: 1.5, saturated_fat: 0.6, sodium: 320 } },
+    { name: 'Chole', aliases: ['chole', 'chana masala', 'chhole', 'chickpea curry', 'chana'], calories: 145, protein: 7, carbs: 19, fat: 5, nutrients: { fiber: 5, sugar: 2, saturated_fat: 0.7, sodium: 350 } },
+    { name: 'Kadhi', aliases: ['kadhi', 'kadi', 'kadhi pakora'], calories: 105, protein: 4, carbs: 9, fat: 6, nutrients: { fiber: 0.5, sugar: 3, saturated_fat: 2.5, sodium: 350 } },
+
+    // Vegetables
+    { name: 'Aloo sabzi', aliases: ['aloo sabzi', 'aloo', 'potato sabzi', 'aloo bhaji', 'potato curry'], calories: 110, protein: 2, carbs: 14, fat: 5.5, nutrients: { fiber: 1.8, sugar: 1, saturated_fat: 0.8, sodium: 300 } },
+    { name: 'Mixed vegetable sabzi', aliases: ['sabzi', 'sabji', 'mixed veg', 'mix veg', 'mixed vegetable', 'vegetable curry'], calories: 80, protein: 2, carbs: 10, fat: 3.5, nutrients: { fiber: 2.5, sugar: 3, saturated_fat: 0.6, sodium: 280 } },
+    { name: 'Bhindi sabzi', aliases: ['bhindi', 'bhindi sabzi', 'okra', 'bhindi masala'], calories: 100, protein: 2.2, carbs: 8, fat: 7, nutrients: { fiber: 3, sugar: 2, saturated_fat: 1, sodium: 250 } },
+    { name: 'Palak paneer', aliases: ['palak paneer'], calories: 160, protein: 7, carbs: 6, fat: 12, nutrients: { fiber: 2, sugar: 1.5, saturated_fat: 6, sodium: 350 } },
+    { name: 'Paneer butter masala', aliases: ['paneer butter masala', 'paneer makhani', 'shahi paneer'], calories: 230, protein: 8, carbs: 9, fat: 18, nutrients: { fiber: 1.2, sugar: 3, saturated_fat: 10, sodium: 450 } },
+    { name: 'Salad', aliases: ['salad', 'green salad', 'cucumber', 'kachumber'], calories: 20, protein: 1, carbs: 4, fat: 0.1, nutrients: { fiber: 1.2, sugar: 2.5, saturated_fat: 0, sodium: 5 } },
+
+    // Protein
+    { name: 'Paneer', aliases: ['paneer', 'cottage cheese'], calories: 265, protein: 18, carbs: 3.6, fat: 20, nutrients: { fiber: 0, sugar: 2.6, saturated_fat: 13, sodium: 20 } },
+    { name: 'Chicken curry', aliases: ['chicken curry', 'chicken gravy', 'chicken masala'], calories: 150, protein: 14, carbs: 4, fat: 9, nutrients: { fiber: 1, sugar: 1.5, saturated_fat: 2.5, sodium: 400 } },
+    { name: 'Butter chicken', aliases: ['butter chicken', 'murgh makhani'], calories: 200, protein: 14, carbs: 6, fat: 13, nutrients: { fiber: 1, sugar: 3, saturated_fat: 6.5, sodium: 450 } },
+    { name: 'Chicken breast (cooked)', aliases: ['chicken breast', 'grilled chicken', 'boiled chicken'], calories: 165, protein: 31, carbs: 0, fat: 3.6, nutrients: { fiber: 0, sugar: 0, saturated_fat: 1, sodium: 74 } },
+    { name: 'Fish curry', aliases: ['fish curry', 'machli', 'meen curry'], calories: 130, protein: 14, carbs: 3, fat: 7, nutrients: { fiber: 0.8, sugar: 1.5, saturated_fat: 2, sodium: 400 } },
+    { name: 'Boiled egg', aliases: ['egg', 'eggs', 'boiled egg', 'anda'], calories: 155, protein: 13, carbs: 1.1, fat: 11, nutrients: { fiber: 0, sugar: 1.1, saturated_fat: 3.3, sodium: 124 }, piece_grams: 50 },
+    { name: 'Omelette', aliases: ['omelette', 'omelet'], calories: 180, protein: 12, carbs: 1.5, fat: 14, nutrients: { fiber: 0.3, sugar: 1, saturated_fat: 4, sodium: 320 }, piece_grams: 60 },
+
+    // Dairy and drinks
+    { name: 'Curd', aliases: ['curd', 'dahi', 'yogurt', 'yoghurt'], calories: 61, protein: 3.5, carbs: 4.7, fat: 3.3, nutrients: { fiber: 0, sugar: 4.7, saturated_fat: 2.1, sodium: 45 }, density: 1.03 },
+    { name: 'Raita', aliases: ['raita', 'boondi raita'], calories: 60, protein: 2.5, carbs: 6, fat: 2.5, nutrients: { fiber: 0.3, sugar: 5, saturated_fat: 1.6, sodium: 250 }, density: 1.03 },
+    { name: 'Milk (toned)', aliases: ['milk', 'toned milk', 'doodh'], calories: 60, protein: 3.2, carbs: 4.8, fat: 3, nutrients: { fiber: 0, sugar: 4.8, saturated_fat: 1.9, sodium: 45 }, density: 1.03 },
+    { name: 'Tea with milk and sugar', aliases: ['tea', 'chai', 'masala chai'], calories: 40, protein: 1, carbs: 6.5, fat: 1, nutrients: { fiber: 0, sugar: 6, saturated_fat: 0.6, sodium: 15 } },
+
+    // Fats and sugar
+    { name: 'Ghee', aliases: ['ghee'], calories: 900, protein: 0, carbs: 0, fat: 100, nutrients: { fiber: 0, sugar: 0, saturated_fat: 60, sodium: 2 }, density: 0.91 },
+    { name: 'Cooking oil', aliases: ['oil', 'cooking oil', 'mustard oil', 'sunflower oil', 'refined oil'], calories: 884, protein: 0, carbs: 0, fat: 100, nutrients: { fiber: 0, sugar: 0, saturated_fat: 14, sodium: 0 }, density: 0.92 },
+    { name: 'Butter', aliases: ['butter', 'makhan'], calories: 717, protein: 0.9, carbs: 0.1, fat: 81, nutrients: { fiber: 0, sugar: 0.1, saturated_fat: 51, sodium: 600 }, density: 0.91 },
+    { name: 'Sugar', aliases: ['sugar', 'cheeni'], calories: 387, protein: 0, carbs: 100, fat: 0, nutrients: { fiber: 0, sugar: 100, saturated_fat: 0, sodium: 1 }, density: 0.85 },
+
+    // Fruit, snacks, sweets
+    { name: 'Banana', aliases: ['banana', 'kela'], calories: 89, protein: 1.1, carbs: 23, fat: 0.3, nutrients: { fiber: 2.6, sugar: 12, saturated_fat: 0.1, sodium: 1 }, piece_grams: 118 },
+    { name: 'Apple', aliases: ['apple', 'seb'], calories: 52, protein: 0.3, carbs: 14, fat: 0.2, nutrients: { fiber: 2.4, sugar: 10, saturated_fat: 0, sodium: 1 }, piece_grams: 180 },
+    { name: 'Samosa', aliases: ['samosa'], calories: 310, protein: 5, carbs: 32, fat: 18, nutrients: { fiber: 2.5, sugar: 1.5, saturated_fat: 4, sodium: 400 }, piece_grams: 80 },
+    { name: 'Pakora', aliases: ['pakora', 'pakoda', 'bhajji', 'bhaji'], calories: 280, protein: 7, carbs: 25, fat: 17, nutrients: { fiber: 3, sugar: 1.5, saturated_fat: 2.5, sodium: 450 }, piece_grams: 20 },
+    { name: 'Roasted papad', aliases: ['papad', 'papadum', 'roasted papad'], calories: 370, protein: 25, carbs: 60, fat: 3, nutrients: { fiber: 9, sugar: 1, saturated_fat: 0.7, sodium: 1800 }, piece_grams: 12 },
+    { name: 'Roasted peanuts', aliases: ['peanuts', 'moongphali', 'groundnuts'], calories: 585, protein: 24, carbs: 21, fat: 50, nutrients: { fiber: 8.5, sugar: 4, saturated_fat: 7, sodium: 10 }, density: 0.6 },
+    { name: 'Gulab jamun', aliases: ['gulab jamun'], calories: 320, protein: 5, carbs: 50, fat: 12, nutrients: { fiber: 0.5, sugar: 35, saturated_fat: 5, sodium: 60 }, piece_grams: 40 },
+    { name: 'Besan ladoo', aliases: ['ladoo', 'laddu', 'besan ladoo', 'besan laddu'], calories: 450, protein: 8, carbs: 55, fat: 22, nutrients: { fiber: 3, sugar: 30, saturated_fat: 10, sodium: 30 }, piece_grams: 40 },
+];
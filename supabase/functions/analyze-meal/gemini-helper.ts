@@ -1,8 +1,26 @@
 // Gemini Vision API integration
 
-import { MacroEstimate } from './types.ts';
+import { AnalysisImage, LabelReadResult, ProviderResult, TokenUsage } from './types.ts';
+import { NUTRIENTS_PROMPT_FIELD, NUTRIENTS_PROMPT_RULES } from './nutrients.ts';
+import { addUsage, BilledCallError, GeminiUsageResponse, usageFromGemini } from './pricing.ts';
+import {
+    AIResponseError,
+    MACRO_ESTIMATE_FORMAT,
+    NUTRITION_LABEL_FORMAT,
+    repairInstruction,
+    ResponseFormat,
+    toGeminiSchema,
+} from './structured-output.ts';
+import { CONFIG } from './config.ts';
+import { log, timed } from '../_shared/logger.ts';
 
 const GEMINI_API_KEY = Deno.env.get('GEMINI_API_KEY');
+export const GEMINI_MODEL = 'gemini-2.5-flash';
+
+// The parts of a generateContent response read here. All optional: nothing in it is trusted.
+interface GeminiResponse extends GeminiUsageResponse {
+    candidates?: { content?: { parts?: { text?: string }[] }; finishReason?: string }[];
+}
 
 const SYSTEM_PROMPT = `You are a nutrition analysis AI specializing in Indian home-cooked meals. Analyze the provided food image and estimate macronutrients with maximum accuracy.
 
@@ -26,9 +44,25 @@ JSON STRUCTURE (respond with ONLY this, nothing else):
   "carbs": <number in grams>,
   "fat": <number in grams>,
   "confidence": "low" | "medium" | "high",
-  "meal_description": "<brief 1-2 line description of food items>"
+  "meal_description": "<brief 1-2 line description of food items>",
+  ${NUTRIENTS_PROMPT_FIELD},
+  "items": [
+    {
+      "name": "<dish name>",
+      "portion_grams": <estimated weight in grams, or null>,
+      "portion_pieces": <count for countable items like roti or idli, or null>,
+      "calories": <number>,
+      "protein": <number in grams>,
+      "carbs": <number in grams>,
+      "fat": <number in grams>
+    }
+  ]
 }
 
+ITEMS: List every visible dish or component once. The meal totals MUST equal the sum of the items.
+
+${NUTRIENTS_PROMPT_RULES}
+
 CONFIDENCE LEVELS:
 - "high": Clear image, recognizable dishes, standard portions
 - "medium": Partially visible, familiar food but uncertain portions
@@ -36,13 +70,29 @@ CONFIDENCE LEVELS:
 
 MEAL DESCRIPTION: Identify the main food items (e.g., "Dal rice with roti" or "Chicken curry with naan")`;
 
+export const LABEL_PROMPT = `You read nutrition facts labels on packaged food. TRANSCRIBE the printed values - do NOT estimate anything.
+
+Return the label's columns:
+- "per_100g": the "per 100g" (or "per 100ml") column, or null if the label has none
+- "per_serving": the "per serving" column, or null if the label has none
+- "serving_grams": the serving size in grams (or ml for drinks), or null if not printed
+- "product_name": the product name if visible, otherwise null
+
+Each column has "calories" (kcal - convert kJ by dividing by 4.184 if only kJ is printed), "protein", "carbs" (total carbohydrate), "fat" (total fat) in grams, and "nutrients" with "fiber", "sugar", "saturated_fat" in grams and "sodium", "iron", "calcium" in milligrams (null when not printed).
+
+Set "legible" to false if there is no nutrition table in the image or it can't be read. Never guess values that aren't printed.
+
+OUTPUT FORMAT (JSON only):
+{"legible": true, "product_name": "<name or null>", "serving_grams": <number or null>, "per_100g": {"calories": <number>, "protein": <number>, "carbs": <number>, "fat": <number>, "nutrients": {"fiber": <number or null>, "sugar": <number or null>, "saturated_fat": <number or null>, "sodium": <number or null>, "iron": <number or null>, "calcium": <number or null>}} | null, "per_serving": {...same fields...} | null}`;
+
 /**
  * Analyzes a meal image using Gemini Vision API
  */
 export async function analyzeWithGemini(
-    imageUrl: string,
-    description?: string
-): Promise<MacroEstimate> {
+    images: AnalysisImage[],
+    description?: string,
+    personalContext?: string
+): Promise<ProviderResult> {
     if (!GEMINI_API_KEY) {
         throw new Error('GEMINI_API_KEY not configured');
     }
@@ -64,155 +114,172 @@ CRITICAL INSTRUCTIONS:
 Analyze the image with the user's context and provide accurate macro estimates in JSON format.`
         : `Analyze this meal image and provide macro estimates in JSON format.`;
 
+    const imageParts = images.map((image) => ({
+        inline_data: {
+            mime_type: image.mime_type,
+            data: image.data,
+        },
+    }));
+
     try {
         // Using Gemini 2.5 Flash as per user telemetry (optimized for high volume)
-        const response = await fetch(
-            `https://generativelanguage.googleapis.com/v1beta/models/gemini-2.5-flash:generateContent?key=${GEMINI_API_KEY}`,
-            {
-                method: 'POST',
-                headers: {
-                    'Content-Type': 'application/json',
+        const { value, usage } = await generateGeminiJSON({
+            parts: [
+                { text: SYSTEM_PROMPT },
+                { text: userPrompt },
+                ...(images.length > 1 ? [{ text: multiImageNote(images.length) }] : []),
+                ...(personalContext ? [{ text: personalContext }] : []),
+                ...imageParts,
+            ],
+            format: MACRO_ESTIMATE_FORMAT,
+            temperature: 0.4,
+            maxOutputTokens: 4096, // Increased from 256 to prevent truncation
+            timeoutMs: 50000, // 50 seconds for Gemini API (increased from 30s)
+            safetySettings: [
+                {
+                    category: 'HARM_CATEGORY_DANGEROUS_CONTENT',
+                    threshold: 'BLOCK_ONLY_HIGH',
                 },
-                body: JSON.stringify({
-                    contents: [
-                        {
-                            parts: [
-                                { text: SYSTEM_PROMPT },
-                                { text: userPrompt },
-                                {
-                                    inline_data: {
-                                        mime_type: 'image/jpeg',
-                                        data: await fetchImageAsBase64(imageUrl),
-                                    },
-                                },
-                            ],
-                        },
-                    ],
-                    generationConfig: {
-                        temperature: 0.4,
-                        maxOutputTokens: 4096, // Increased from 256 to prevent truncation
-                    },
-                    safetySettings: [
-                        {
-                            category: 'HARM_CATEGORY_DANGEROUS_CONTENT',
-                            threshold: 'BLOCK_ONLY_HIGH',
-                        },
-                    ],
-                }),
-                signal: AbortSignal.timeout(50000), // 50 seconds for Gemini API (increased from 30s)
-            }
-        );
+            ],
+        });
+        return { macros: value, usage };
+    } catch (error) {
+        log.error('Gemini analysis failed', { error });
+        throw error;
+    }
+}
 
-        if (!response.ok) {
-            const errorText = await response.text();
-            throw new Error(`Gemini API error: ${response.status} - ${errorText}`);
-        }
+/**
+ * Transcribes a nutrition facts label with Gemini Vision (no estimation)
+ */
+export async function readLabelWithGemini(images: AnalysisImage[]): Promise<LabelReadResult> {
+    if (!GEMINI_API_KEY) {
+        throw new Error('GEMINI_API_KEY not configured');
+    }
 
-        const data = await response.json();
+    const { value, usage } = await generateGeminiJSON({
+        parts: [
+            { text: LABEL_PROMPT },
+            ...images.map((image) => ({
+                inline_data: { mime_type: image.mime_type, data: image.data },
+            })),
+        ],
+        format: NUTRITION_LABEL_FORMAT,
+        temperature: 0,
+        maxOutputTokens: 2048,
+        timeoutMs: CONFIG.GEMINI_TIMEOUT_MS,
+    });
+    return { label: value, usage };
+}
 
-        console.log('Gemini API response structure:', JSON.stringify(data, null, 2));
+export interface GeminiJSONRequest<T> {
+    parts: unknown[];
+    format: ResponseFormat<T>;
+    temperature: number;
+    maxOutputTokens: number;
+    timeoutMs: number;
+    safetySettings?: unknown[];
+}
 
-        // Extract all text parts from response
-        const candidate = data.candidates?.[0];
-        if (!candidate) {
-            throw new Error('No candidate in Gemini response');
+/**
+ * Calls Gemini with a response schema and parses the result. An unusable
+ * response gets one repair turn that shows the model its output and the
+ * error. Usage covers both requests, and failures after the first
+ * response are thrown as BilledCallError.
+ */
+export async function generateGeminiJSON<T>(request: GeminiJSONRequest<T>): Promise<{ value: T; usage: TokenUsage }> {
+    const contents: { role: string; parts: unknown[] }[] = [{ role: 'user', parts: request.parts }];
+    let usage: TokenUsage | undefined;
+
+    const send = async (): Promise<string> => {
+        let data: GeminiResponse;
+        try {
+            data = (await timed('provider_call', () => postGemini(contents, request), {
+                provider: 'gemini',
+                model: GEMINI_MODEL,
+                repair: usage !== undefined,
+            })) as GeminiResponse;
+        } catch (error) {
+            // A failed repair request still leaves the first one to pay for
+            throw usage ? new BilledCallError((error as Error).message, usage) : error;
         }
 
-        const parts = candidate.content?.parts;
-        if (!parts || parts.length === 0) {
-            throw new Error('No parts in Gemini response');
-        }
+        usage = addUsage(usage, usageFromGemini(data, GEMINI_MODEL));
 
         // Concatenate all text parts (Gemini may split response across multiple parts)
-        const text = parts.map((part: any) => part.text || '').join('');
-
+        const text = (data.candidates?.[0]?.content?.parts ?? []).map((part) => part.text || '').join('');
         if (!text) {
-            throw new Error('No text in Gemini response');
+            throw new BilledCallError(
+                `No text in Gemini response (finish reason: ${data.candidates?.[0]?.finishReason ?? 'none'})`,
+                usage
+            );
         }
 
-        console.log('Extracted full text from Gemini:', text);
+        log.debug('Gemini response text', { text });
+        return text;
+    };
 
-        // Parse JSON response
-        const result = parseAIResponse(text);
-        return result;
+    const text = await send();
+    try {
+        return { value: await timed('parse', () => request.format.parse(text), { provider: 'gemini' }), usage: usage! };
     } catch (error) {
-        console.error('Gemini analysis failed:', error);
-        throw error;
+        if (!(error instanceof AIResponseError)) {
+            throw new BilledCallError((error as Error).message, usage!);
+        }
+        log.warn('Unusable Gemini response, asking for a repair', { error });
+        contents.push(
+            { role: 'model', parts: [{ text }] },
+            { role: 'user', parts: [{ text: repairInstruction(error) }] }
+        );
     }
-}
 
-/**
- * Fetches image and converts to base64
- */
-async function fetchImageAsBase64(imageUrl: string): Promise<string> {
-    const response = await fetch(imageUrl, { signal: AbortSignal.timeout(30000) }); // 30 seconds for image fetch (increased from 20s)
-    if (!response.ok) {
-        throw new Error(`Failed to fetch image: ${response.status}`);
+    const repaired = await send();
+    try {
+        return { value: await timed('parse', () => request.format.parse(repaired), { provider: 'gemini' }), usage: usage! };
+    } catch (error) {
+        throw new BilledCallError(`${(error as Error).message} (after repair retry)`, usage!);
     }
-
-    const arrayBuffer = await response.arrayBuffer();
-    const bytes = new Uint8Array(arrayBuffer);
-
-    // Convert to base64 efficiently using chunking to avoid stack limits for large images
-    return btoa(
-        bytes.reduce((data, byte) => data + String.fromCharCode(byte), '')
-    );
 }
 
-/**
- * Parses and validates AI response
- */
-function parseAIResponse(text: string): MacroEstimate {
-    console.log('Raw Gemini response:', text);
-
-    // Remove markdown code blocks if present
-    let cleaned = text.trim();
-
-    // Try multiple cleaning strategies
-    // Strategy 1: Remove ```json and ``` markers
-    cleaned = cleaned.replace(/^```json\s*/i, '');
-    cleaned = cleaned.replace(/^```jsons\s*/i, ''); // Handle typo "jsons"
-    cleaned = cleaned.replace(/^```\s*/, '');
-    cleaned = cleaned.replace(/\s*```$/, '');
-    cleaned = cleaned.trim();
-
-    // Strategy 2: Extract JSON object using regex if still malformed
-    if (!cleaned.startsWith('{')) {
-        const jsonMatch = cleaned.match(/\{[\s\S]*\}/);
-        if (jsonMatch) {
-            cleaned = jsonMatch[0];
+async function postGemini(
+    contents: { role: string; parts: unknown[] }[],
+    request: GeminiJSONRequest<unknown>
+): Promise<unknown> {
+    const response = await fetch(
+        `https://generativelanguage.googleapis.com/v1beta/models/${GEMINI_MODEL}:generateContent?key=${GEMINI_API_KEY}`,
+        {
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/json',
+            },
+            body: JSON.stringify({
+                contents,
+                generationConfig: {
+                    temperature: request.temperature,
+                    maxOutputTokens: request.maxOutputTokens,
+                    responseMimeType: 'application/json',
+                    responseSchema: toGeminiSchema(request.format.schema),
+                },
+                ...(request.safetySettings ? { safetySettings: request.safetySettings } : {}),
+            }),
+            signal: AbortSignal.timeout(request.timeoutMs),
         }
-    }
-
-    console.log('Cleaned JSON string:', cleaned);
+    );
 
-    let parsed;
-    try {
-        parsed = JSON.parse(cleaned);
-    } catch (parseError) {
-        console.error('JSON parse failed:', parseError);
-        console.error('Attempted to parse:', cleaned);
-        throw new Error(`Failed to parse AI response as JSON: ${(parseError as any).message}`);
+    if (!response.ok) {
+        const errorText = await response.text();
+        throw new Error(`Gemini API error: ${response.status} - ${errorText}`);
     }
 
-    // Validate structure
-    if (
-        typeof parsed.calories !== 'number' ||
-        typeof parsed.protein !== 'number' ||
-        typeof parsed.carbs !== 'number' ||
-        typeof parsed.fat !== 'number' ||
-        !['low', 'medium', 'high'].includes(parsed.confidence)
-    ) {
-        console.error('Invalid structure:', JSON.stringify(parsed));
-        throw new Error('Invalid response structure from AI');
-    }
+    return await response.json();
+}
 
-    return {
-        calories: Math.round(parsed.calories),
-        protein: Math.round(parsed.protein * 10) / 10,
-        carbs: Math.round(parsed.carbs * 10) / 10,
-        fat: Math.round(parsed.fat * 10) / 10,
-        confidence: parsed.confidence,
-        meal_description: parsed.meal_description || undefined,  // Optional field
-    };
+/**
+ * Prompt note for requests with several photos of the same meal
+ */
+export function multiImageNote(count: number): string {
+    return `📸 ${count} PHOTOS OF THE SAME MEAL: They show one meal from different angles, or the main plate plus side bowls.
+- Identify each item once, even if it appears in several photos
+- Use the extra angles to judge portion sizes, NOT to add the same item again
+- Only add an item more than once if the photos clearly show separate servings`;
 }
@@ -1,11 +1,16 @@
 // Gemini Text-Only Analysis (no image)
 // For manual entry where users describe meals with quantities
 
-import { MacroEstimate } from './types.ts';
+import { FoodParseResult, ProviderResult } from './types.ts';
+import { NUTRIENTS_PROMPT_FIELD, NUTRIENTS_PROMPT_RULES } from './nutrients.ts';
+import { generateGeminiJSON } from './gemini-helper.ts';
+import { FOOD_LIST_FORMAT, MACRO_ESTIMATE_FORMAT } from './structured-output.ts';
+import { CONFIG } from './config.ts';
+import { log } from '../_shared/logger.ts';
 
 const GEMINI_API_KEY = Deno.env.get('GEMINI_API_KEY');
 
-const TEXT_ANALYSIS_PROMPT = `You are a nutrition analysis AI specializing in Indian meals. Parse text descriptions and estimate macronutrients.
+export const TEXT_ANALYSIS_PROMPT = `You are a nutrition analysis AI specializing in Indian meals. Parse text descriptions and estimate macronutrients.
 
 INPUT: User provides meal description with quantities (e.g., "300g rice with 200g dal and 1 tablespoon ghee")
 
@@ -42,23 +47,80 @@ RESPOND WITH ONLY VALID JSON - no explanation, no markdown:
   "carbs": <number in grams>,
   "fat": <number in grams>,
   "confidence": "low" | "medium" | "high",
-  "meal_description": "<brief summary of parsed items>"
+  "meal_description": "<brief summary of parsed items>",
+  ${NUTRIENTS_PROMPT_FIELD},
+  "items": [
+    {
+      "name": "<food item>",
+      "portion_grams": <weight in grams, or null>,
+      "portion_pieces": <count for countable items like roti or eggs, or null>,
+      "calories": <number>,
+      "protein": <number in grams>,
+      "carbs": <number in grams>,
+      "fat": <number in grams>
+    }
+  ]
 }
 
+The meal totals MUST equal the sum of the items.
+
+${NUTRIENTS_PROMPT_RULES}
+
 EXAMPLES:
 
 Input: "300g rice with 200g dal and 1 tablespoon ghee"
-Output: {"calories": 850, "protein": 24, "carbs": 145, "fat": 15, "confidence": "high", "meal_description": "Rice (300g), dal (200g), ghee (1 tbsp)"}
+Output: {"calories": 850, "protein": 24, "carbs": 145, "fat": 15, "confidence": "high", "meal_description": "Rice (300g), dal (200g), ghee (1 tbsp)", "items": [{"name": "Rice", "portion_grams": 300, "portion_pieces": null, "calories": 390, "protein": 8, "carbs": 85, "fat": 1}, {"name": "Dal", "portion_grams": 200, "portion_pieces": null, "calories": 340, "protein": 16, "carbs": 60, "fat": 0}, {"name": "Ghee", "portion_grams": 14, "portion_pieces": null, "calories": 120, "protein": 0, "carbs": 0, "fat": 14}]}
 
 Input: "2 roti with sabzi"
-Output: {"calories": 280, "protein": 8, "carbs": 50, "fat": 5, "confidence": "medium", "meal_description": "2 roti with mixed vegetables"}`;
+Output: {"calories": 280, "protein": 8, "carbs": 50, "fat": 5, "confidence": "medium", "meal_description": "2 roti with mixed vegetables", "items": [{"name": "Roti", "portion_grams": 70, "portion_pieces": 2, "calories": 200, "protein": 6, "carbs": 40, "fat": 2}, {"name": "Mixed vegetable sabzi", "portion_grams": 100, "portion_pieces": null, "calories": 80, "protein": 2, "carbs": 10, "fat": 3}]}`;
+
+export const FOOD_PARSE_PROMPT = `You split Indian meal descriptions into individual foods. Do NOT estimate any nutrition.
+
+For each food the user mentions, return:
+- "food": the dish or ingredient in its common name (e.g. "roti", "toor dal", "jeera rice", "ghee")
+- "quantity": a number (use 1 when no amount is given)
+- "unit": one of g, kg, ml, l, tsp, tbsp, katori, cup, glass, bowl, piece
+  - "vati" is a katori. Use "piece" for countable items (roti, idli, egg, samosa)
+  - If the user uses a unit not on this list (e.g. "plate", "serving"), return it as written
+- "preparation": how it was made if stated (e.g. "fried", "with ghee", "no oil"), otherwise null
+
+Fats added separately ("1 tbsp ghee on rice") are their own food.
+
+OUTPUT FORMAT (JSON only):
+{"foods": [{"food": "<name>", "quantity": <number>, "unit": "<unit>", "preparation": "<text or null>"}]}
+
+EXAMPLE:
+Input: "2 rotis with 1 katori dal and a tsp of ghee"
+Output: {"foods": [{"food": "roti", "quantity": 2, "unit": "piece", "preparation": null}, {"food": "dal", "quantity": 1, "unit": "katori", "preparation": null}, {"food": "ghee", "quantity": 1, "unit": "tsp", "preparation": null}]}`;
+
+/**
+ * Splits a meal description into foods with Gemini (no nutrition estimate)
+ */
+export async function parseFoodsWithGemini(description: string): Promise<FoodParseResult> {
+    if (!GEMINI_API_KEY) {
+        throw new Error('GEMINI_API_KEY not configured');
+    }
+
+    const { value, usage } = await generateGeminiJSON({
+        parts: [
+            { text: FOOD_PARSE_PROMPT },
+            { text: `Meal description:\n\n"${description}"` },
+        ],
+        format: FOOD_LIST_FORMAT,
+        temperature: 0,
+        maxOutputTokens: 2048,
+        timeoutMs: CONFIG.GEMINI_TIMEOUT_MS,
+    });
+    return { foods: value, usage };
+}
 
 /**
  * Analyzes meal description text (no image) using Gemini API
  */
 export async function analyzeTextWithGemini(
-    description: string
-): Promise<MacroEstimate> {
+    description: string,
+    personalContext?: string
+): Promise<ProviderResult> {
     if (!GEMINI_API_KEY) {
         throw new Error('GEMINI_API_KEY not configured');
     }
@@ -68,116 +130,20 @@ export async function analyzeTextWithGemini(
     }
 
     try {
-        const response = await fetch(
-            `https://generativelanguage.googleapis.com/v1beta/models/gemini-2.5-flash:generateContent?key=${GEMINI_API_KEY}`,
-            {
-                method: 'POST',
-                headers: {
-                    'Content-Type': 'application/json',
-                },
-                body: JSON.stringify({
-                    contents: [
-                        {
-                            parts: [
-                                { text: TEXT_ANALYSIS_PROMPT },
-                                { text: `Analyze this meal description:\n\n"${description}"\n\nProvide macro estimates in JSON format.` },
-                            ],
-                        },
-                    ],
-                    generationConfig: {
-                        temperature: 0.3, // Lower temperature for more consistent parsing
-                        maxOutputTokens: 2048, // Increased from 512 to prevent truncation
-                    },
-                }),
-                signal: AbortSignal.timeout(40000), // 40 seconds for text analysis (increased from 15s)
-            }
-        );
-
-        if (!response.ok) {
-            const errorText = await response.text();
-            throw new Error(`Gemini API error: ${response.status} - ${errorText}`);
-        }
-
-        const data = await response.json();
-
-        // Extract text from response
-        const candidate = data.candidates?.[0];
-        if (!candidate) {
-            throw new Error('No candidate in Gemini response');
-        }
-
-        const parts = candidate.content?.parts;
-        if (!parts || parts.length === 0) {
-            throw new Error('No parts in Gemini response');
-        }
-
-        const text = parts.map((part: any) => part.text || '').join('');
-        if (!text) {
-            throw new Error('No text in Gemini response');
-        }
-
-        console.log('Gemini text analysis response:', text);
-
-        // Parse JSON response
-        const result = parseTextAnalysisResponse(text);
-        return result;
+        const { value, usage } = await generateGeminiJSON({
+            parts: [
+                { text: TEXT_ANALYSIS_PROMPT },
+                { text: `Analyze this meal description:\n\n"${description}"\n\nProvide macro estimates in JSON format.` },
+                ...(personalContext ? [{ text: personalContext }] : []),
+            ],
+            format: MACRO_ESTIMATE_FORMAT,
+            temperature: 0.3, // Lower temperature for more consistent parsing
+            maxOutputTokens: 2048, // Increased from 512 to prevent truncation
+            timeoutMs: 40000, // 40 seconds for text analysis (increased from 15s)
+        });
+        return { macros: value, usage };
     } catch (error) {
-        console.error('Gemini text analysis failed:', error);
+        log.error('Gemini text analysis failed', { error });
         throw error;
     }
 }
-
-/**
- * Parses and validates text analysis response
- */
-function parseTextAnalysisResponse(text: string): MacroEstimate {
-    // Remove markdown code blocks if present
-    let cleaned = text.trim();
-    cleaned = cleaned.replace(/^```json\s*/i, '');
-    cleaned = cleaned.replace(/^```\s*/, '');
-    cleaned = cleaned.replace(/\s*```$/, '');
-    cleaned = cleaned.trim();
-
-    // Extract JSON object if embedded in text
-    if (!cleaned.startsWith('{')) {
-        const jsonMatch = cleaned.match(/\{[\s\S]*\}/);
-        if (jsonMatch) {
-            cleaned = jsonMatch[0];
-        }
-    }
-
-    let parsed;
-    try {
-        parsed = JSON.parse(cleaned);
-    } catch (parseError) {
-        console.error('JSON parse failed:', parseError);
-        console.error('Attempted to parse:', cleaned);
-
-        // Check if response appears truncated
-        if (cleaned.endsWith(',') || !cleaned.endsWith('}')) {
-            throw new Error(`AI response appears truncated. Received: ${cleaned.substring(0, 100)}...`);
-        }
-
-        throw new Error(`Failed to parse AI response as JSON. Response: ${cleaned.substring(0, 200)}`);
-    }
-
-    // Validate structure
-    if (
-        typeof parsed.calories !== 'number' ||
-        typeof parsed.protein !== 'number' ||
-        typeof parsed.carbs !== 'number' ||
-        typeof parsed.fat !== 'number' ||
-        !['low', 'medium', 'high'].includes(parsed.confidence)
-    ) {
-        throw new Error('Invalid response structure from AI');
-    }
-
-    return {
-        calories: Math.round(parsed.calories),
-        protein: Math.round(parsed.protein * 10) / 10,
-        carbs: Math.round(parsed.carbs * 10) / 10,
-        fat: Math.round(parsed.fat * 10) / 10,
-        confidence: parsed.confidence,
-        meal_description: parsed.meal_description || undefined,
-    };
-}
@@ -0,0 +1,125 @@
+// Image fetching, format detection, encoding and downscaling helpers
+
+import { encode as encodeBase64 } from 'https://deno.land/std@0.168.0/encoding/base64.ts';
+import { Image } from 'https://deno.land/x/imagescript@1.3.0/mod.ts';
+import { CONFIG } from './config.ts';
+import { ApiError } from '../_shared/errors.ts';
+import { log } from '../_shared/logger.ts';
+
+/**
+ * Fetches image bytes from a URL
+ */
+export async function fetchImageBytes(imageUrl: string, field: string): Promise<Uint8Array> {
+    try {
+        const response = await fetch(imageUrl, { signal: AbortSignal.timeout(30000) }); // 30 seconds for image fetch (increased from 20s)
+        if (!response.ok) {
+            throw new ApiError('IMAGE_UNREACHABLE', `Image URL returned status ${response.status}`, field);
+        }
+
+        return new Uint8Array(await response.arrayBuffer());
+    } catch (error) {
+        if (error instanceof ApiError) {
+            throw error;
+        }
+        log.warn('Image download failed', { field, error });
+        throw new ApiError('IMAGE_UNREACHABLE', 'Image URL could not be loaded', field);
+    }
+}
+
+/**
+ * Converts image bytes to base64
+ * (std encoder - building a string byte-by-byte is very slow for 5-10MB photos)
+ */
+export function bytesToBase64(bytes: Uint8Array): string {
+    return encodeBase64(bytes);
+}
+
+/**
+ * Detects the image format from its magic bytes (null if not a supported image)
+ */
+export function detectImageMime(bytes: Uint8Array): string | null {
+    const startsWith = (signature: number[], offset = 0) =>
+        signature.every((byte, i) => bytes[offset + i] === byte);
+    const ascii = (offset: number, length: number) =>
+        String.fromCharCode(...bytes.subarray(offset, offset + length));
+
+    if (startsWith([0xff, 0xd8, 0xff])) {
+        return 'image/jpeg';
+    }
+    if (startsWith([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) {
+        return 'image/png';
+    }
+    if (ascii(0, 4) === 'RIFF' && ascii(8, 4) === 'WEBP') {
+        return 'image/webp';
+    }
+    // HEIC/HEIF (iPhone photos): ISO BMFF "ftyp" box with a HEIF brand
+    if (ascii(4, 4) === 'ftyp' && ['heic', 'heix', 'hevc', 'heim', 'heis', 'mif1', 'msf1'].includes(ascii(8, 4))) {
+        return 'image/heic';
+    }
+
+    return null;
+}
+
+export interface PreparedImage {
+    bytes: Uint8Array;
+    mime_type: string;
+    resized: boolean;  // True when re-encoded (the original URL no longer matches)
+}
+
+// Formats ImageScript can decode. Others (WebP, HEIC) are sent unchanged -
+// Gemini takes them inline, and OpenAI takes WebP (it refuses HEIC itself)
+const RESIZABLE_TYPES = ['image/jpeg', 'image/png'];
+
+/**
+ * Downscales an image before it is sent to any provider.
+ * Caps the longest side and the file size by re-encoding as JPEG - fewer
+ * tokens, smaller requests, fewer timeouts. Images that can't be decoded
+ * are sent as they are (uploads are already capped at MAX_UPLOAD_BYTES).
+ */
+export async function prepareImageForAI(bytes: Uint8Array, mimeType: string, field: string): Promise<PreparedImage> {
+    const original = { bytes, mime_type: mimeType, resized: false };
+
+    if (!RESIZABLE_TYPES.includes(mimeType)) {
+        return unchanged(original, field);
+    }
+
+    try {
+        const image = await Image.decode(bytes);
+        const longestSide = Math.max(image.width, image.height);
+
+        if (longestSide <= CONFIG.MAX_IMAGE_DIMENSION && bytes.length <= CONFIG.MAX_IMAGE_BYTES_FOR_AI) {
+            return original;
+        }
+
+        if (longestSide > CONFIG.MAX_IMAGE_DIMENSION) {
+            if (image.width >= image.height) {
+                image.resize(CONFIG.MAX_IMAGE_DIMENSION, Image.RESIZE_AUTO);
+            } else {
+                image.resize(Image.RESIZE_AUTO, CONFIG.MAX_IMAGE_DIMENSION);
+            }
+        }
+
+        let encoded = await image.encodeJPEG(CONFIG.JPEG_QUALITY);
+        if (encoded.length > CONFIG.MAX_IMAGE_BYTES_FOR_AI) {
+            encoded = await image.encodeJPEG(CONFIG.JPEG_FALLBACK_QUALITY);
+        }
+
+        log.info('Downscaled image', {
+            bytes_before: bytes.length,
+            bytes_after: encoded.length,
+            longest_side_before: longestSide,
+            longest_side_after: Math.max(image.width, image.height),
+        });
+        return { bytes: encoded, mime_type: 'image/jpeg', resized: true };
+    } catch (error) {
+        log.error('Image downscale failed', { error });
+        return unchanged(original, field);
+    }
+}
+
+function unchanged(image: PreparedImage, field: string): PreparedImage {
+    if (image.bytes.length > CONFIG.MAX_IMAGE_BYTES_FOR_AI) {
+        log.warn('Sending large image without downscaling', { field, mime_type: image.mime_type, bytes: image.bytes.length });
+    }
+    return image;
+}
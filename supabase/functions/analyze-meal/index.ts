@@ -3,47 +3,103 @@
 
 import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.39.3';
-import { validateRequest, validateImageUrl, ValidationError } from './validators.ts';
-import { analyzeWithGemini } from './gemini-helper.ts';
-import { analyzeTextWithGemini } from './gemini-text-helper.ts';
-import { analyzeWithOpenAI } from './openai-helper.ts';
 import {
-    getDailyUsageCount,
-    getMonthlyEstimatedCost,
+    readRequestBody,
+    validateRequest,
+    validateImageUrl,
+    validateImageBytes,
+    validateJobId,
+} from './validators.ts';
+import { runProviderChain, resolveProviderChain } from './providers.ts';
+import { resolveEnsembleProviders, runEnsemble } from './ensemble.ts';
+import {
+    getBudgetUsage,
+    reserveAIQuota,
+    getAIQuota,
+    releaseAIQuota,
     recordAIUsage,
-    saveMeal,
+    getCachedAnalysis,
+    saveCachedAnalysis,
+    uploadMealImage,
+    deleteMealImages,
+    saveMealAnalysis,
+    createAnalysisJob,
+    updateAnalysisJob,
+    getAnalysisJob,
+    QuotaReservation,
 } from './database.ts';
+import { createJobProgressWriter, withStaleCheck } from './jobs.ts';
 import { CONFIG } from './config.ts';
-import { AnalyzeMealResponse, ErrorResponse, MacroEstimate, AIModel } from './types.ts';
-
-serve(async (req) => {
+import { reconcileItemTotals } from './meal-items.ts';
+import { checkPlausibility } from './plausibility.ts';
+import { budgetExceededMessage, budgetLevel, budgetRetryAfterSeconds, degradeForBudget } from './budget.ts';
+import { quotaExceededMessage, quotaMode, rateLimitHeaders, retryAfterSeconds } from './quota.ts';
+import { buildCacheKey, hashImages } from './cache.ts';
+import { getDailyBudget } from './daily-budget.ts';
+import { buildPersonalContext } from './personalization.ts';
+import { runGroundedTextAnalysis } from './food-grounding.ts';
+import { LabelError, labelMacros, runLabelAnalysis } from './nutrition-label.ts';
+import { lookupProduct } from './product-catalog.ts';
+import { fetchImageBytes, bytesToBase64, prepareImageForAI } from './image-utils.ts';
+import { errorResponse, jsonError } from '../_shared/errors.ts';
+import { log, setLogUser, timed, withRequestLog } from '../_shared/logger.ts';
+import {
+    AnalysisJob,
+    AnalysisWarning,
+    AnalyzeMealRequest,
+    AnalyzeMealResponse,
+    AnalysisInput,
+    AnalysisImage,
+    MacroEstimate,
+    AIModel,
+    EnsembleSummary,
+    LabelSummary,
+    MealAnalysisRecord,
+    ModelCall,
+    JobAcceptedResponse,
+    ProgressReporter,
+    Product,
+    QuotaMode,
+} from './types.ts';
+
+// Supabase Edge Runtime global: keeps the worker alive for background work
+declare const EdgeRuntime: { waitUntil(promise: Promise<unknown>): void } | undefined;
+
+serve((req) => {
     // Handle CORS preflight
     if (req.method === 'OPTIONS') {
         return new Response(null, {
             headers: {
                 'Access-Control-Allow-Origin': '*',
-                'Access-Control-Allow-Methods': 'POST',
-                'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+                'Access-Control-Allow-Methods': 'GET, POST',
+                'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, x-request-id',
             },
         });
     }
 
+    // Every log line of the request carries its id, and so does the response
+    return withRequestLog(req, () => handleRequest(req));
+});
+
+/**
+ * Authenticates the user and runs the analysis, or reads a job's status
+ */
+async function handleRequest(req: Request): Promise<Response> {
     try {
-        // Only accept POST requests
-        if (req.method !== 'POST') {
-            return jsonError('Method not allowed', 405);
+        // POST analyzes, GET reads an async job's status
+        if (req.method !== 'POST' && req.method !== 'GET') {
+            return jsonError('METHOD_NOT_ALLOWED');
         }
 
         // Validate authentication
         const authHeader = req.headers.get('Authorization');
         if (!authHeader) {
-            console.error('Missing authorization header');
-            return jsonError('Missing authorization header', 401);
+            log.warn('Missing authorization header');
+            return jsonError('UNAUTHORIZED', 'Missing authorization header');
         }
 
         // Extract JWT token from Authorization header
         const token = authHeader.replace('Bearer ', '');
-        console.log('JWT token extracted');
 
         const supabaseClient = createClient(
             Deno.env.get('SUPABASE_URL') ?? '',
@@ -56,136 +112,267 @@ serve(async (req) => {
         );
 
         // Validate JWT token by passing it directly to getUser()
-        console.log('Validating JWT token...');
         const {
             data: { user },
             error: authError,
-        } = await supabaseClient.auth.getUser(token);
+        } = await timed('auth', () => supabaseClient.auth.getUser(token));
 
         if (authError) {
-            console.error('Auth error:', authError);
-            return jsonError('Unauthorized', 401, authError.message);
+            log.warn('Auth error', { error: authError });
+            return jsonError('UNAUTHORIZED', 'Invalid or expired token');
         }
 
         if (!user) {
-            console.error('No user returned from auth');
-            return jsonError('Unauthorized', 401);
+            log.warn('No user returned from auth');
+            return jsonError('UNAUTHORIZED', 'Invalid or expired token');
         }
 
-        console.log('✅ User authenticated:', user.id);
+        await setLogUser(user.id);
 
-        // Parse and validate request
-        const body = await req.json();
-        const requestData = validateRequest(body);
+        // Async job status: GET /analyze-meal/jobs/:id
+        if (req.method === 'GET') {
+            return await jobStatusResponse(user.id, new URL(req.url).pathname);
+        }
+
+        // Parse and validate request (JSON, or multipart/form-data with image files)
+        const { requestData, uploads } = await timed('validation', async () => {
+            const { body, uploads } = await readRequestBody(req);
+            return { requestData: validateRequest(body, uploads.length), uploads };
+        });
 
         // Verify user_id matches authenticated user
         if (requestData.user_id !== user.id) {
-            return jsonError('user_id does not match authenticated user', 403);
+            return jsonError('FORBIDDEN', 'user_id does not match authenticated user', { field: 'user_id' });
         }
 
-        // Check rate limit
-        const dailyUsage = await getDailyUsageCount(user.id);
-        if (dailyUsage >= CONFIG.RATE_LIMIT_DAILY) {
-            return jsonError('Daily rate limit exceeded. Max 5 AI analyses per day.', 429);
+        // Slow analyses can outlast mobile client timeouts - answer now, analyze in the background
+        if (requestData.async) {
+            return await startAnalysisJob(user.id, requestData, uploads);
         }
 
-        // Check cost guard
-        const monthlyCost = await getMonthlyEstimatedCost();
-        if (monthlyCost >= CONFIG.COST_LIMIT_MONTHLY_INR) {
+        return await analyzeMeal(user.id, requestData, uploads);
+    } catch (error) {
+        log.error('Error processing request', { error });
+        return errorResponse(error);
+    }
+}
+
+/**
+ * Runs one analysis and returns the response the client gets. Async jobs
+ * run the same function in the background and store the response body.
+ */
+async function analyzeMeal(
+    userId: string,
+    requestData: AnalyzeMealRequest,
+    uploads: Uint8Array[],
+    onProgress?: ProgressReporter
+): Promise<Response> {
+    // Barcodes are looked up in the product catalogs - no AI call, no quota.
+    // Unknown products are read from the label photo instead, when one was sent
+    if (requestData.barcode) {
+        const product = await lookupProduct(requestData.barcode);
+        if (product) {
+            return await barcodeResponse(userId, product, requestData);
+        }
+        if (uploads.length === 0 && (requestData.image_urls ?? []).length === 0) {
             return jsonError(
-                `Monthly cost limit reached(₹${CONFIG.COST_LIMIT_MONTHLY_INR}).Please try again next month.`,
-                429
+                'PRODUCT_NOT_FOUND',
+                "Unknown barcode. Send a photo of the nutrition label with mode 'label'",
+                { field: 'barcode' }
             );
         }
+        log.info('Barcode not in any catalog, reading the label photo', { barcode: requestData.barcode });
+    }
+
+    // Uploaded images: validate size and real format from the bytes themselves
+    const uploadMimes = uploads.map((bytes) => validateImageBytes(bytes, requestData.mime_type));
+
+    const imageUrls = requestData.image_urls ?? [];
+
+    if (imageUrls.length > 0 || uploads.length > 0) {
+        onProgress?.({ stage: 'fetching_images' });
+    }
 
-        // Validate image URL accessibility (only if image_url provided)
-        if (requestData.image_url) {
-            await validateImageUrl(requestData.image_url);
+    const { fetchedBytes, prepared } = await timed('image_fetch', async () => {
+        // Validate image URL accessibility (only if images provided)
+        // (image_url counts as image_urls[0])
+        await Promise.all(imageUrls.map((url, i) => validateImageUrl(url, `image_urls[${i}]`)));
+
+        // Fetch URL images once - their bytes key the cache and go straight to the providers.
+        // The real format comes from the bytes, not the URL or Content-Type
+        const fetchedBytes = await Promise.all(imageUrls.map((url, i) => fetchImageBytes(url, `image_urls[${i}]`)));
+        const fetchedMimes = fetchedBytes.map((bytes, i) => validateImageBytes(bytes, undefined, `image_urls[${i}]`));
+
+        // Downscale before sending to any provider
+        const prepared = await Promise.all([
+            ...fetchedBytes.map((bytes, i) => prepareImageForAI(bytes, fetchedMimes[i], `image_urls[${i}]`)),
+            ...uploads.map((bytes, i) => prepareImageForAI(bytes, uploadMimes[i], 'image')),
+        ]);
+        return { fetchedBytes, prepared };
+    }, { images: imageUrls.length + uploads.length });
+
+    const images: AnalysisImage[] = prepared.map((image, i) => ({
+        data: bytesToBase64(image.bytes),
+        mime_type: image.mime_type,
+        // Providers may fetch the original URL themselves unless the image was re-encoded
+        url: i < imageUrls.length && !image.resized ? imageUrls[i] : undefined,
+    }));
+    const imageHash = images.length > 0 ? await hashImages([...fetchedBytes, ...uploads]) : undefined;
+
+    // Analyze with AI - ensemble (opt-in) or the configured provider chain for this mode.
+    // Labels are transcribed, not estimated, so past meals don't apply to them
+    const mode = requestData.mode === 'label' || requestData.barcode
+        ? 'label'
+        : images.length > 0 ? 'image' : 'text';
+    let input: AnalysisInput = {
+        mode,
+        images: images.length > 0 ? images : undefined,
+        description: requestData.description,
+        personalContext: requestData.personalize === false || mode === 'label'
+            ? undefined
+            : await loadPersonalContext(userId, requestData.description),
+    };
+    log.info('Analysis mode', { mode });
+
+    const ensembleProviders = requestData.ensemble ? resolveEnsembleProviders(input) : [];
+    if (requestData.ensemble && ensembleProviders.length < 2) {
+        log.info('Ensemble requested but fewer than 2 providers configured, using fallback chain');
+    }
+    let useEnsemble = ensembleProviders.length >= 2;
+
+    // Serve repeat submissions from the cache - no AI call, no quota, no cost
+    const chainKey = `chain:${resolveProviderChain(input.mode).map((p) => p.name).join(',')}`;
+    const providerKey = useEnsemble
+        ? `ensemble:${ensembleProviders.map((p) => p.name).join(',')}`
+        : input.mode === 'text'
+            ? `grounded:${CONFIG.FOOD_TABLE_VERSION}:${chainKey}`
+            : input.mode === 'label'
+                ? `label:${chainKey}`
+                : chainKey;
+    const cacheKey = await buildCacheKey({
+        mode: input.mode,
+        imageHash,
+        description: requestData.description,
+        providerKey,
+        personalContext: input.personalContext,
+        labelAmount: input.mode === 'label'
+            ? { servings: requestData.servings, grams: requestData.grams }
+            : undefined,
+    });
+
+    try {
+        const cached = await getCachedAnalysis(cacheKey);
+        if (cached) {
+            log.info('Analysis cache hit');
+            const recorded = await withAnalysisId(
+                userId,
+                { ...cached, cached: true, image_paths: await storeUploads(userId, requestData, uploads, uploadMimes) },
+                input,
+                imageHash
+            );
+            return jsonResponse(
+                await withDailyBudget(userId, recorded, requestData.utc_offset_minutes),
+                200,
+                await quotaStatusHeaders(userId, quotaMode(input.mode))
+            );
         }
+    } catch (cacheError) {
+        log.error('Analysis cache lookup failed', { error: cacheError });
+    }
 
-        // Analyze with AI
-        let macros: MacroEstimate;
-        let aiModel: AIModel;
+    // Check the global and the user's monthly budget. Close to either, the
+    // analysis gets cheaper (the cache key above stays the full-quality one)
+    const budget = await getBudgetUsage(userId);
+    const budgetState = budgetLevel(budget);
+    if (budgetState === 'exhausted') {
+        return retryLaterResponse('COST_CAP', budgetExceededMessage(budget), budgetRetryAfterSeconds());
+    }
+    if (budgetState !== 'normal') {
+        input = degradeForBudget(input, budgetState);
+        useEnsemble = false;
+        log.info('Analysis degraded for the AI budget', {
+            budget_level: budgetState,
+            mode: input.mode,
+            providers: input.providers,
+        });
+    }
 
-        // Check if OpenAI is configured (only needed for image analysis fallback)
-        const hasOpenAI = !!Deno.env.get('OPENAI_API_KEY');
+    // Reserve a quota slot atomically - parallel requests can't overrun any of the plan's limits
+    const quota = quotaMode(input.mode);
+    const reservation = await reserveAIQuota(userId, quota);
+    if (!reservation.allowed) {
+        return rateLimitResponse(reservation);
+    }
 
-        // Branch: Image analysis vs Text-only analysis
-        if (requestData.image_url) {
-            // IMAGE ANALYSIS MODE
-            console.log('Image analysis mode');
-            try {
-                // Try Gemini first
-                console.log('Attempting image analysis with Gemini...');
-                macros = await analyzeWithGemini(requestData.image_url, requestData.description);
-                aiModel = 'gemini';
-
-                // Check if confidence is too low - fallback to OpenAI (if configured)
-                if (macros.confidence === 'low' && hasOpenAI) {
-                    console.log('Gemini returned low confidence, falling back to OpenAI...');
-                    try {
-                        const openAIMacros = await analyzeWithOpenAI(requestData.image_url, requestData.description);
-
-                        // Use OpenAI result if it has higher confidence
-                        if (openAIMacros.confidence !== 'low') {
-                            macros = openAIMacros;
-                            aiModel = 'openai';
-                            console.log('OpenAI provided better confidence, using OpenAI result');
-                        } else {
-                            console.log('Both models returned low confidence, using Gemini result');
-                        }
-                    } catch (openAIError) {
-                        console.error('OpenAI fallback failed:', openAIError);
-                        // Continue with Gemini result
-                    }
-                } else if (macros.confidence === 'low' && !hasOpenAI) {
-                    console.log('Gemini returned low confidence, but OpenAI not configured. Using Gemini result.');
-                }
-            } catch (geminiError) {
-                console.error('Gemini analysis failed:', geminiError);
-
-                // Fallback to OpenAI (if configured)
-                if (hasOpenAI) {
-                    try {
-                        console.log('Falling back to OpenAI due to Gemini failure...');
-                        macros = await analyzeWithOpenAI(requestData.image_url, requestData.description);
-                        aiModel = 'openai';
-                    } catch (openAIError) {
-                        console.error('OpenAI fallback also failed:', openAIError);
-                        return jsonError('unable_to_estimate', 500, 'AI model failed to analyze the image');
-                    }
-                } else {
-                    console.error('Gemini failed and OpenAI not configured');
-                    return jsonError('unable_to_estimate', 500, 'AI analysis failed. Please check the image and try again.');
-                }
+    // Groups this analysis' model calls in ai_calls. Not the X-Request-Id: clients may resend that on retries
+    const usageRequestId = crypto.randomUUID();
+    const modelCalls: ModelCall[] = [];
+    let analysisSucceeded = false;
+    try {
+        let macros: MacroEstimate;
+        let aiModel: AIModel;
+        let ensemble: EnsembleSummary | undefined;
+        let label: LabelSummary | undefined;
+        try {
+            if (useEnsemble) {
+                const result = await runEnsemble(input, ensembleProviders, modelCalls, onProgress);
+                macros = result.macros;
+                aiModel = result.succeeded.map((p) => p.name).join('+');
+                ensemble = result.disagreement !== undefined
+                    ? { models: result.succeeded.map((p) => p.name), disagreement: result.disagreement }
+                    : undefined;
+            } else if (input.mode === 'label') {
+                // Macros computed exactly from the label; the AI only transcribes it
+                const result = await runLabelAnalysis(
+                    input,
+                    { servings: requestData.servings, grams: requestData.grams },
+                    modelCalls,
+                    onProgress
+                );
+                macros = result.macros;
+                aiModel = result.aiModel;
+                label = { ...result.label, barcode: requestData.barcode };
+            } else if (input.mode === 'text') {
+                // Macros from the food table; the AI only parses (and covers unknown foods)
+                const result = await runGroundedTextAnalysis(input, modelCalls, onProgress);
+                macros = result.macros;
+                aiModel = result.aiModel;
+            } else {
+                const result = await runProviderChain(input, modelCalls, onProgress);
+                macros = result.macros;
+                aiModel = result.provider.name;
             }
-        } else if (requestData.description) {
-            // TEXT-ONLY ANALYSIS MODE
-            console.log('Text-only analysis mode');
-            try {
-                console.log('Analyzing text description with Gemini...');
-                macros = await analyzeTextWithGemini(requestData.description);
-                aiModel = 'gemini';
-            } catch (textAnalysisError) {
-                console.error('Text analysis failed:', textAnalysisError);
-                return jsonError('unable_to_estimate', 500, 'Failed to analyze meal description. Please provide more details.');
+        } catch (analysisError) {
+            log.error('AI analysis failed', { error: analysisError });
+            if (analysisError instanceof LabelError) {
+                return jsonError('LABEL_UNREADABLE', analysisError.message);
             }
-        } else {
-            // This should never happen due to validation, but just in case
-            return jsonError('invalid_request', 400, 'Either image_url or description must be provided');
+            return input.mode !== 'text'
+                ? jsonError('PROVIDER_UNAVAILABLE', 'AI analysis failed. Please check the image and try again.')
+                : jsonError('PROVIDER_UNAVAILABLE', 'Failed to analyze meal description. Please provide more details.');
         }
 
-        // Additional validation - reject if it doesn't look like food
-        if (macros.calories === 0 || (macros.protein === 0 && macros.carbs === 0 && macros.fat === 0)) {
-            return jsonError('unable_to_estimate', 400, 'Image does not appear to contain food');
+        onProgress?.({ stage: 'finishing' });
+
+        // Make sure the totals add up to the per-item breakdown
+        macros = reconcileItemTotals(macros);
+
+        // Additional validation - reject if it doesn't look like food.
+        // Labels are exact, and zero-calorie products (diet drinks, black coffee) exist
+        if (
+            input.mode !== 'label' &&
+            (macros.calories === 0 || (macros.protein === 0 && macros.carbs === 0 && macros.fat === 0))
+        ) {
+            return jsonError('NOT_FOOD');
         }
 
-        // NOTE: We do NOT save the meal here anymore - the mobile app will save it
-        // This prevents duplicate entries (one from Edge Function, one from app)
-        // The Edge Function should ONLY analyze and return data
+        // Estimates get fixed or flagged where the numbers don't add up - label values are printed facts
+        let warnings: AnalysisWarning[] = [];
+        if (input.mode !== 'label') {
+            ({ macros, warnings } = checkPlausibility(macros));
+        }
 
-        // Record AI usage for rate limiting
-        await recordAIUsage(user.id, aiModel);
+        analysisSucceeded = true;
 
         // Return success response
         const response: AnalyzeMealResponse = {
@@ -195,54 +382,340 @@ serve(async (req) => {
             fat: macros.fat,
             confidence: macros.confidence,
             meal_description: macros.meal_description,  // AI-generated description
-            source: 'ai',
+            items: macros.items,
+            nutrients: macros.nutrients,
+            source: input.mode === 'label' ? 'label' : 'ai',
             ai_model_used: aiModel,
+            ensemble,
+            label,
+            personalized: !!input.personalContext,
+            warnings: warnings.length > 0 ? warnings : undefined,
+            budget_level: budgetState !== 'normal' ? budgetState : undefined,
         };
 
-        return jsonResponse(response);
+        // Cache failures must not fail the analysis the user already paid for.
+        // Degraded results aren't cached: they'd be served once the budget recovers,
+        // or in place of a full ensemble once all providers answer again
+        if (budgetState === 'normal' && (!useEnsemble || ensemble)) {
+            try {
+                await saveCachedAnalysis(cacheKey, providerKey, response);
+            } catch (cacheError) {
+                log.error('Failed to cache analysis', { error: cacheError });
+            }
+        }
 
-    } catch (error) {
-        console.error('Error processing request:', error);
+        const recorded = await withAnalysisId(
+            userId,
+            {
+                ...response,
+                cached: false,
+                image_paths: await storeUploads(userId, requestData, uploads, uploadMimes),
+            },
+            input,
+            imageHash
+        );
+        return jsonResponse(
+            await withDailyBudget(userId, recorded, requestData.utc_offset_minutes),
+            200,
+            rateLimitHeaders(reservation)
+        );
+    } finally {
+        for (const call of modelCalls) {
+            log.info('Provider call', { mode: input.mode, ...call });
+        }
 
-        if (error instanceof ValidationError) {
-            return jsonError(error.message, 400);
+        // Every model call is billed - discarded fallbacks and failed analyses included
+        if (modelCalls.length > 0) {
+            await recordAIUsage(userId, reservation.usage_date, input.mode, usageRequestId, modelCalls).catch((usageError) =>
+                log.error('Failed to record AI usage', { error: usageError })
+            );
         }
 
-        if (error.name === 'TimeoutError') {
-            return jsonError('Request timeout', 504);
+        // Failed analyses give the slot back so they don't burn the user's quota
+        if (!analysisSucceeded) {
+            await releaseAIQuota(userId, reservation.usage_date, quota).catch((releaseError) =>
+                log.error('Failed to release quota slot', { error: releaseError })
+            );
         }
+    }
+}
 
-        return jsonError('Internal server error', 500, error.message);
+/**
+ * Creates a job and runs the analysis in the background. The job id is
+ * returned before any image is fetched or model called.
+ */
+async function startAnalysisJob(
+    userId: string,
+    requestData: AnalyzeMealRequest,
+    uploads: Uint8Array[]
+): Promise<Response> {
+    // Cheap checks still fail the request itself; everything slow happens in the job
+    uploads.forEach((bytes) => validateImageBytes(bytes, requestData.mime_type));
+
+    const jobId = await createAnalysisJob(userId);
+    log.info('Async analysis job created', { job_id: jobId });
+
+    const background = runAnalysisJob(jobId, userId, requestData, uploads);
+    // Keeps the worker alive after the response is sent (not available when served locally by plain Deno)
+    if (typeof EdgeRuntime !== 'undefined') {
+        EdgeRuntime.waitUntil(background);
+    }
+
+    const accepted: JobAcceptedResponse = { job_id: jobId, status: 'queued' };
+    return jsonResponse(accepted, 202);
+}
+
+/**
+ * Runs a job's analysis and stores the outcome - the body and status code
+ * the synchronous request would have returned
+ */
+async function runAnalysisJob(
+    jobId: string,
+    userId: string,
+    requestData: AnalyzeMealRequest,
+    uploads: Uint8Array[]
+): Promise<void> {
+    const progress = createJobProgressWriter(jobId);
+
+    let response: Response;
+    try {
+        response = await analyzeMeal(userId, requestData, uploads, progress.report);
+    } catch (error) {
+        log.error('Async analysis failed', { job_id: jobId, error });
+        response = errorResponse(error);
     }
-});
+
+    const body = await response.json();
+    await progress.flush();
+
+    try {
+        await updateAnalysisJob(jobId, {
+            status: response.ok ? 'succeeded' : 'failed',
+            stage: 'done',
+            provider: null,
+            result: response.ok ? body : undefined,
+            error: response.ok ? undefined : body,
+            http_status: response.status,
+        });
+        log.info('Async analysis job finished', { job_id: jobId, status: response.status });
+    } catch (jobError) {
+        // The job goes stale and is reported as failed on a later poll
+        log.error('Failed to store job result', { job_id: jobId, error: jobError });
+    }
+}
+
+/**
+ * GET /analyze-meal/jobs/:id - users can only see their own jobs
+ */
+async function jobStatusResponse(userId: string, pathname: string): Promise<Response> {
+    const segments = pathname.split('/').filter(Boolean);
+    const index = segments.lastIndexOf('jobs');
+    if (index < 0 || index !== segments.length - 2) {
+        return jsonError('NOT_FOUND');
+    }
+
+    const job = await getAnalysisJob(validateJobId(segments[index + 1]), userId);
+    if (!job) {
+        return jsonError('NOT_FOUND', 'Job not found');
+    }
+
+    return jsonResponse(withStaleCheck(job));
+}
+
+/**
+ * Macros for a catalog product. Nothing is cached, reserved or billed -
+ * the lookup costs no AI call.
+ */
+async function barcodeResponse(
+    userId: string,
+    product: Product,
+    requestData: AnalyzeMealRequest
+): Promise<Response> {
+    let result: ReturnType<typeof labelMacros>;
+    try {
+        result = labelMacros(product, { servings: requestData.servings, grams: requestData.grams });
+    } catch (error) {
+        if (error instanceof LabelError) {
+            return jsonError('INVALID_INPUT', error.message, {
+                field: requestData.grams !== undefined ? 'grams' : 'servings',
+            });
+        }
+        throw error;
+    }
+
+    const { macros } = result;
+    const response: AnalyzeMealResponse = {
+        calories: macros.calories,
+        protein: macros.protein,
+        carbs: macros.carbs,
+        fat: macros.fat,
+        confidence: macros.confidence,
+        meal_description: macros.meal_description,
+        nutrients: macros.nutrients,
+        source: 'barcode',
+        label: { ...result.label, barcode: product.barcode, catalog: product.source },
+    };
+
+    const recorded = await withAnalysisId(userId, response, { mode: 'barcode' });
+    return jsonResponse(
+        await withDailyBudget(userId, recorded, requestData.utc_offset_minutes),
+        200,
+        await quotaStatusHeaders(userId, quotaMode('label'))
+    );
+}
+
+/**
+ * Gives the response its analysis_id and stores the estimate, so a later
+ * correction can be compared against it. A failed write is only logged -
+ * corrections for that analysis are then rejected as unknown.
+ */
+async function withAnalysisId(
+    userId: string,
+    response: AnalyzeMealResponse,
+    input: { mode: MealAnalysisRecord['mode']; description?: string },
+    imageHash?: string
+): Promise<AnalyzeMealResponse> {
+    const analysisId = crypto.randomUUID();
+
+    try {
+        await saveMealAnalysis({
+            id: analysisId,
+            user_id: userId,
+            mode: input.mode,
+            calories: response.calories,
+            protein: response.protein,
+            carbs: response.carbs,
+            fat: response.fat,
+            confidence: response.confidence,
+            items: response.items ?? null,
+            ai_model: response.ai_model_used ?? null,
+            prompt_version: CONFIG.PROMPT_VERSION,
+            image_hash: imageHash ?? null,
+            description: input.description ?? null,
+            cached: response.cached ?? false,
+        });
+    } catch (recordError) {
+        log.error('Failed to store analysis', { error: recordError });
+    }
+
+    return { analysis_id: analysisId, ...response };
+}
+
+/**
+ * Keeps uploaded images in Storage when the request asks for it, so the app
+ * doesn't upload them again. Called once the analysis succeeded, so refused
+ * or failed requests leave no files behind. Never fails the analysis -
+ * image_paths is left out instead.
+ */
+async function storeUploads(
+    userId: string,
+    requestData: AnalyzeMealRequest,
+    uploads: Uint8Array[],
+    mimeTypes: string[]
+): Promise<string[] | undefined> {
+    if (!requestData.store_image || uploads.length === 0) {
+        return undefined;
+    }
+
+    const results = await Promise.allSettled(uploads.map((bytes, i) => uploadMealImage(userId, bytes, mimeTypes[i])));
+    const paths = results.flatMap((result) => (result.status === 'fulfilled' ? [result.value] : []));
+    if (paths.length === uploads.length) {
+        return paths;
+    }
+
+    const failed = results.find((result): result is PromiseRejectedResult => result.status === 'rejected');
+    log.error('Failed to store uploaded images', { error: failed?.reason });
+    await deleteMealImages(paths).catch((deleteError) =>
+        log.error('Failed to remove partly stored images', { error: deleteError })
+    );
+    return undefined;
+}
+
+/**
+ * The user's matching past meals as a prompt block. Never fails the analysis -
+ * it just runs without personal examples.
+ */
+async function loadPersonalContext(userId: string, description?: string): Promise<string | undefined> {
+    try {
+        return await buildPersonalContext(userId, description);
+    } catch (personalError) {
+        log.error('Failed to load personal examples', { error: personalError });
+        return undefined;
+    }
+}
+
+/**
+ * Adds how the meal fits the user's day. Never fails the analysis -
+ * the budget is simply left out if the profile or meals can't be loaded.
+ */
+async function withDailyBudget(
+    userId: string,
+    response: AnalyzeMealResponse,
+    utcOffsetMinutes?: number
+): Promise<AnalyzeMealResponse> {
+    try {
+        const dailyBudget = await getDailyBudget(userId, response, utcOffsetMinutes);
+        return dailyBudget ? { ...response, daily_budget: dailyBudget } : response;
+    } catch (budgetError) {
+        log.error('Failed to build daily budget', { error: budgetError });
+        return response;
+    }
+}
 
 /**
  * Helper to return JSON response
  */
-function jsonResponse(data: AnalyzeMealResponse, status = 200): Response {
+function jsonResponse(
+    data: AnalyzeMealResponse | AnalysisJob | JobAcceptedResponse,
+    status = 200,
+    headers: Record<string, string> = {}
+): Response {
     return new Response(JSON.stringify(data), {
         status,
         headers: {
             'Content-Type': 'application/json',
             'Access-Control-Allow-Origin': '*',
+            ...headers,
         },
     });
 }
 
 /**
- * Helper to return error response
+ * 429 with Retry-After, for limits that reset at a known time
+ */
+function retryLaterResponse(
+    code: 'RATE_LIMITED' | 'COST_CAP',
+    message: string,
+    retryAfter: number,
+    headers: Record<string, string> = {}
+): Response {
+    return jsonError(code, message, { retry_after: retryAfter }, {
+        'Retry-After': String(retryAfter),
+        ...headers,
+    });
+}
+
+/**
+ * X-RateLimit-* headers for a response that used no quota. Never fails the
+ * response - the headers are left out if the lookup fails.
  */
-function jsonError(error: string, status = 500, details?: string): Response {
-    const body: ErrorResponse = { error };
-    if (details) {
-        body.details = details;
+async function quotaStatusHeaders(userId: string, mode: QuotaMode): Promise<Record<string, string>> {
+    try {
+        return rateLimitHeaders(await getAIQuota(userId, mode));
+    } catch (quotaError) {
+        log.error('Failed to read quota status', { error: quotaError });
+        return {};
     }
+}
 
-    return new Response(JSON.stringify(body), {
-        status,
-        headers: {
-            'Content-Type': 'application/json',
-            'Access-Control-Allow-Origin': '*',
-        },
-    });
+/**
+ * 429 for a refused quota reservation, with the limit that was hit
+ */
+function rateLimitResponse(reservation: QuotaReservation): Response {
+    return retryLaterResponse(
+        'RATE_LIMITED',
+        quotaExceededMessage(reservation),
+        retryAfterSeconds(reservation),
+        rateLimitHeaders(reservation)
+    );
 }
@@ -0,0 +1,61 @@
+// Async analysis jobs
+// The POST returns a job_id right away; the analysis runs in the background
+// and writes its progress and result to analysis_jobs. Clients poll
+// GET /analyze-meal/jobs/:id or subscribe to the row with Supabase Realtime.
+
+import { AnalysisJob, JobProgress, ProgressReporter } from './types.ts';
+import { updateAnalysisJob } from './database.ts';
+import { CONFIG } from './config.ts';
+import { errorBody } from '../_shared/errors.ts';
+import { log } from '../_shared/logger.ts';
+
+export interface JobProgressWriter {
+    report: ProgressReporter;
+    flush(): Promise<void>;  // Waits for every reported stage to be written
+}
+
+/**
+ * Writes progress updates to the job row in the order they were reported.
+ * Writes are best-effort - a failed update never fails the analysis.
+ */
+export function createJobProgressWriter(jobId: string): JobProgressWriter {
+    let pending = Promise.resolve();
+    let last: JobProgress | undefined;
+
+    return {
+        report: (progress) => {
+            // The chains report every attempt; skip repeats of the same stage
+            if (last && last.stage === progress.stage && last.provider === progress.provider) {
+                return;
+            }
+            last = progress;
+
+            pending = pending
+                .then(() => updateAnalysisJob(jobId, {
+                    status: 'running',
+                    stage: progress.stage,
+                    provider: progress.provider ?? null,
+                }))
+                .catch((progressError) => log.error('Failed to update job progress', { job_id: jobId, error: progressError }));
+        },
+        flush: () => pending,
+    };
+}
+
+/**
+ * Jobs whose worker died (e.g. the function hit its wall-clock limit) stay
+ * queued or running forever; report them as failed once they're stale.
+ */
+export function withStaleCheck(job: AnalysisJob, now = Date.now()): AnalysisJob {
+    const finished = job.status === 'succeeded' || job.status === 'failed';
+    if (finished || now - Date.parse(job.updated_at) < CONFIG.JOB_STALE_AFTER_MS) {
+        return job;
+    }
+
+    return {
+        ...job,
+        status: 'failed',
+        error: errorBody('TIMEOUT', 'The analysis stopped without a result. Please try again.'),
+        http_status: 504,
+    };
+}
@@ -0,0 +1,134 @@
+// Per-item breakdown helpers shared by all AI providers
+
+import { MacroEstimate, MealItem } from './types.ts';
+import { CONFIG } from './config.ts';
+import { log } from '../_shared/logger.ts';
+
+/**
+ * Parses the optional items array from an AI response.
+ * Malformed entries are dropped instead of failing the whole analysis.
+ */
+export function parseMealItems(raw: unknown): MealItem[] | undefined {
+    if (!Array.isArray(raw)) {
+        return undefined;
+    }
+
+    const items: MealItem[] = [];
+    for (const entry of raw) {
+        if (
+            !entry ||
+            typeof entry.name !== 'string' ||
+            typeof entry.calories !== 'number' ||
+            typeof entry.protein !== 'number' ||
+            typeof entry.carbs !== 'number' ||
+            typeof entry.fat !== 'number'
+        ) {
+            log.warn('Skipping malformed meal item');
+            log.debug('Malformed meal item', { item: entry });
+            continue;
+        }
+
+        items.push({
+            name: entry.name,
+            portion_grams: typeof entry.portion_grams === 'number' ? Math.round(entry.portion_grams) : undefined,
+            portion_pieces: typeof entry.portion_pieces === 'number' ? entry.portion_pieces : undefined,
+            calories: Math.round(entry.calories),
+            protein: Math.round(entry.protein * 10) / 10,
+            carbs: Math.round(entry.carbs * 10) / 10,
+            fat: Math.round(entry.fat * 10) / 10,
+        });
+    }
+
+    return items.length > 0 ? items : undefined;
+}
+
+/**
+ * Rounded macro totals of a list of items
+ */
+export function sumItems(items: MealItem[]): Pick<MacroEstimate, 'calories' | 'protein' | 'carbs' | 'fat'> {
+    const totals = items.reduce(
+        (sum, item) => ({
+            calories: sum.calories + item.calories,
+            protein: sum.protein + item.protein,
+            carbs: sum.carbs + item.carbs,
+            fat: sum.fat + item.fat,
+        }),
+        { calories: 0, protein: 0, carbs: 0, fat: 0 }
+    );
+
+    return {
+        calories: Math.round(totals.calories),
+        protein: Math.round(totals.protein * 10) / 10,
+        carbs: Math.round(totals.carbs * 10) / 10,
+        fat: Math.round(totals.fat * 10) / 10,
+    };
+}
+
+/**
+ * Checks meal totals against the sum of the items.
+ * If any macro is off by more than the configured tolerance, the item sums win -
+ * clients edit individual items, so the totals must always add up.
+ */
+export function reconcileItemTotals(macros: MacroEstimate): MacroEstimate {
+    if (!macros.items || macros.items.length === 0) {
+        return macros;
+    }
+
+    const sums = macros.items.reduce(
+        (acc, item) => ({
+            calories: acc.calories + item.calories,
+            protein: acc.protein + item.protein,
+            carbs: acc.carbs + item.carbs,
+            fat: acc.fat + item.fat,
+        }),
+        { calories: 0, protein: 0, carbs: 0, fat: 0 }
+    );
+
+    const mismatch = (['calories', 'protein', 'carbs', 'fat'] as const).some((key) => {
+        const total = macros[key];
+        const sum = sums[key];
+        const gap = Math.abs(total - sum);
+        // Ignore rounding noise on small values (e.g. 0.5g vs 0.8g fat)
+        return gap > 2 && gap / Math.max(total, sum) > CONFIG.ITEM_TOTALS_TOLERANCE;
+    });
+
+    if (!mismatch) {
+        return macros;
+    }
+
+    log.warn('Meal totals do not match item sums, using item sums', {
+        totals: { calories: macros.calories, protein: macros.protein, carbs: macros.carbs, fat: macros.fat },
+        sums,
+    });
+
+    return {
+        ...macros,
+        calories: Math.round(sums.calories),
+        protein: Math.round(sums.protein * 10) / 10,
+        carbs: Math.round(sums.carbs * 10) / 10,
+        fat: Math.round(sums.fat * 10) / 10,
+    };
+}
+
+/**
+ * Scales items so they sum to the given totals (per macro).
+ * Used when totals come from somewhere else, e.g. an ensemble median.
+ */
+export function scaleItemsToTotals(
+    items: MealItem[],
+    totals: Pick<MacroEstimate, 'calories' | 'protein' | 'carbs' | 'fat'>
+): MealItem[] {
+    const factor = (key: 'calories' | 'protein' | 'carbs' | 'fat') => {
+        const sum = items.reduce((acc, item) => acc + item[key], 0);
+        return sum > 0 ? totals[key] / sum : 1;
+    };
+    const f = { calories: factor('calories'), protein: factor('protein'), carbs: factor('carbs'), fat: factor('fat') };
+
+    return items.map((item) => ({
+        ...item,
+        calories: Math.round(item.calories * f.calories),
+        protein: Math.round(item.protein * f.protein * 10) / 10,
+        carbs: Math.round(item.carbs * f.carbs * 10) / 10,
+        fat: Math.round(item.fat * f.fat * 10) / 10,
+    }));
+}
@@ -0,0 +1,111 @@
+// Extended nutrient block shared by all AI providers
+// Fiber, sugar and saturated fat in grams; sodium, iron and calcium in milligrams.
+// Every field is optional - models leave out what they can't estimate.
+
+import { Nutrients } from './types.ts';
+import { log } from '../_shared/logger.ts';
+
+type NutrientKey = keyof Nutrients;
+
+// Upper bounds for one meal; anything above is a unit mix-up (g vs mg), not food
+const NUTRIENT_LIMITS: Record<NutrientKey, { unit: 'g' | 'mg'; max: number }> = {
+    fiber: { unit: 'g', max: 150 },
+    sugar: { unit: 'g', max: 500 },
+    saturated_fat: { unit: 'g', max: 300 },
+    sodium: { unit: 'mg', max: 20000 },
+    iron: { unit: 'mg', max: 200 },
+    calcium: { unit: 'mg', max: 5000 },
+};
+
+export const NUTRIENT_KEYS = Object.keys(NUTRIENT_LIMITS) as NutrientKey[];
+
+/**
+ * JSON schema snippet for the prompts (goes inside the response object)
+ */
+export const NUTRIENTS_PROMPT_FIELD = `"nutrients": {
+    "fiber": <grams>,
+    "sugar": <grams>,
+    "saturated_fat": <grams>,
+    "sodium": <milligrams>,
+    "iron": <milligrams, or null>,
+    "calcium": <milligrams, or null>
+  }`;
+
+/**
+ * Prompt rules for the nutrient block
+ */
+export const NUTRIENTS_PROMPT_RULES = `NUTRIENTS: Whole-meal totals. Use null for any value you cannot estimate.
+- Sodium: include salt used in cooking (home-cooked dal/sabzi ~300-500mg per katori), pickles and papad are high
+- Saturated fat: ghee and butter are ~60% saturated, most cooking oils ~10-20%`;
+
+/**
+ * Parses the optional nutrients object from an AI response.
+ * Missing, malformed or out-of-range values are dropped, never failing the analysis.
+ */
+export function parseNutrients(raw: unknown): Nutrients | undefined {
+    if (!raw || typeof raw !== 'object') {
+        return undefined;
+    }
+
+    const source = raw as Record<string, unknown>;
+    const nutrients: Nutrients = {};
+
+    for (const key of NUTRIENT_KEYS) {
+        const value = source[key];
+        if (value === undefined || value === null) {
+            continue;
+        }
+        if (typeof value !== 'number' || !Number.isFinite(value) || value < 0 || value > NUTRIENT_LIMITS[key].max) {
+            log.warn('Dropping invalid nutrient', { nutrient: key, value });
+            continue;
+        }
+        nutrients[key] = roundNutrient(key, value);
+    }
+
+    return Object.keys(nutrients).length > 0 ? nutrients : undefined;
+}
+
+/**
+ * Adds up the nutrients of several parts of a meal. A nutrient is only
+ * reported when every part has it - a partial sum would understate it.
+ */
+export function sumNutrients(parts: (Nutrients | undefined)[]): Nutrients | undefined {
+    if (parts.length === 0) {
+        return undefined;
+    }
+
+    const total: Nutrients = {};
+    for (const key of NUTRIENT_KEYS) {
+        const values = parts.map((part) => part?.[key]);
+        if (values.every((value) => value !== undefined)) {
+            total[key] = roundNutrient(key, values.reduce((sum: number, value) => sum + value!, 0));
+        }
+    }
+
+    return Object.keys(total).length > 0 ? total : undefined;
+}
+
+/**
+ * Scales per-100g nutrients to a portion
+ */
+export function scaleNutrients(per100g: Nutrients | undefined, grams: number): Nutrients | undefined {
+    if (!per100g) {
+        return undefined;
+    }
+
+    const scaled: Nutrients = {};
+    for (const key of NUTRIENT_KEYS) {
+        const value = per100g[key];
+        if (value !== undefined) {
+            scaled[key] = roundNutrient(key, (value * grams) / 100);
+        }
+    }
+    return scaled;
+}
+
+/**
+ * Grams to 1 decimal, milligrams to whole numbers
+ */
+export function roundNutrient(key: NutrientKey, value: number): number {
+    return NUTRIENT_LIMITS[key].unit === 'g' ? Math.round(value * 10) / 10 : Math.round(value);
+}
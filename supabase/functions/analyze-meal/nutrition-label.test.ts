@@ -0,0 +1,31 @@
+// Tests for scaling label values to the amount eaten
+
+import { assertEquals, assertThrows } from 'https://deno.land/std@0.168.0/testing/asserts.ts';
+import { LabelAmount, LabelError, valuesForAmount } from './nutrition-label.ts';
+import { LabelData, LabelSummary } from './types.ts';
+
+const PER_100G = { calories: 400, protein: 10, carbs: 60, fat: 12 };
+const PER_SERVING = { calories: 120, protein: 3, carbs: 18, fat: 3.6 };
+
+const BOTH: LabelData = { serving_grams: 30, per_100g: PER_100G, per_serving: PER_SERVING };
+const ONLY_100G: LabelData = { serving_grams: 30, per_100g: PER_100G };
+const ONLY_SERVING: LabelData = { serving_grams: 30, per_serving: PER_SERVING };
+
+Deno.test('valuesForAmount uses the column that fits the amount', () => {
+    const cases: [string, LabelData, LabelAmount, number, LabelSummary['basis']][] = [
+        ['grams, per 100g', BOTH, { grams: 50 }, 200, 'per_100g'],
+        ['servings, per serving', BOTH, { servings: 2 }, 240, 'per_serving'],
+        ['servings through serving size', ONLY_100G, { servings: 2 }, 240, 'per_100g'],
+        ['grams through serving size', ONLY_SERVING, { grams: 60 }, 240, 'per_serving'],
+    ];
+    for (const [name, label, amount, calories, basis] of cases) {
+        const result = valuesForAmount(label, amount);
+        assertEquals(Math.round(result.values.calories), calories, name);
+        assertEquals(result.basis, basis, name);
+    }
+});
+
+Deno.test('valuesForAmount needs a serving size to convert', () => {
+    assertThrows(() => valuesForAmount({ per_serving: PER_SERVING }, { grams: 50 }), LabelError);
+    assertThrows(() => valuesForAmount({ per_100g: PER_100G }, { servings: 1 }), LabelError);
+});
@@ -0,0 +1,170 @@
+// Exact macros for packaged food from a nutrition facts label
+// The model only transcribes the label; the macros for the amount eaten
+// are computed here, so the same label and amount always give the same numbers.
+// Barcode lookups (product-catalog.ts) use the same arithmetic.
+
+import {
+    AIModel,
+    AnalysisInput,
+    LabelData,
+    LabelSummary,
+    LabelValues,
+    MacroEstimate,
+    ModelCall,
+    NutritionLabel,
+    ProgressReporter,
+} from './types.ts';
+import { scaleNutrients } from './nutrients.ts';
+import { ProviderChainError, resolveProviderChain } from './providers.ts';
+import { buildModelCall, usageFromError } from './pricing.ts';
+import { log } from '../_shared/logger.ts';
+
+export class LabelError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'LabelError';
+    }
+}
+
+// Amount eaten: servings as defined on the label, or grams (ml for drinks)
+export interface LabelAmount {
+    servings?: number;
+    grams?: number;
+}
+
+export interface LabelAnalysis {
+    macros: MacroEstimate;
+    aiModel: AIModel;
+    label: LabelSummary;
+}
+
+/**
+ * Reads the label along the image chain and computes macros for the amount.
+ * Every model call is appended to `calls`. Throws LabelError when no label
+ * could be read or it lacks what the amount needs (e.g. grams, but only a
+ * per-serving column without a serving size), ProviderChainError when every
+ * provider failed.
+ */
+export async function runLabelAnalysis(
+    input: AnalysisInput,
+    amount: LabelAmount,
+    calls: ModelCall[],
+    onProgress?: ProgressReporter
+): Promise<LabelAnalysis> {
+    let illegible = false;
+    let attempted = false;
+
+    for (const provider of resolveProviderChain('label', input.providers)) {
+        if (!provider.readLabel) {
+            continue;
+        }
+
+        onProgress?.({ stage: attempted ? 'fallback' : 'analyzing', provider: provider.name });
+        const fallback = attempted;
+        attempted = true;
+
+        let label: NutritionLabel;
+        const startedAt = Date.now();
+        try {
+            log.info('Reading nutrition label', { provider: provider.name });
+            const result = await provider.readLabel(input.images!);
+            label = result.label;
+            calls.push(buildModelCall(
+                provider.name,
+                result.usage,
+                label.legible ? 'used' : 'discarded',
+                Date.now() - startedAt,
+                fallback
+            ));
+        } catch (error) {
+            log.error('Label reading failed', { provider: provider.name, error });
+            calls.push(buildModelCall(provider.name, usageFromError(error), 'failed', Date.now() - startedAt, fallback));
+            continue;
+        }
+
+        // Another model may do better with small print
+        if (!label.legible) {
+            log.info('No legible nutrition label, trying next provider', { provider: provider.name });
+            illegible = true;
+            continue;
+        }
+
+        return { ...labelMacros(label, amount), aiModel: provider.name };
+    }
+
+    if (illegible) {
+        throw new LabelError('No readable nutrition label found in the image');
+    }
+    throw new ProviderChainError('All AI providers failed for label mode');
+}
+
+/**
+ * Macros for the amount eaten from label data (a read label or a catalog product)
+ */
+export function labelMacros(
+    label: LabelData,
+    amount: LabelAmount
+): { macros: MacroEstimate; label: LabelSummary } {
+    const { values, basis } = valuesForAmount(label, amount);
+    return {
+        macros: {
+            calories: Math.round(values.calories),
+            protein: round1(values.protein),
+            carbs: round1(values.carbs),
+            fat: round1(values.fat),
+            confidence: 'high',
+            meal_description: label.product_name,
+            nutrients: values.nutrients,
+        },
+        label: {
+            product_name: label.product_name,
+            serving_grams: label.serving_grams,
+            servings: amount.servings,
+            grams: amount.grams,
+            basis,
+        },
+    };
+}
+
+/**
+ * Scales the label to the amount eaten. Uses the column that needs no
+ * conversion when there is one; otherwise converts through the serving size.
+ */
+export function valuesForAmount(
+    label: LabelData,
+    amount: LabelAmount
+): { values: LabelValues; basis: LabelSummary['basis'] } {
+    if (amount.grams !== undefined) {
+        if (label.per_100g) {
+            return { values: scaleValues(label.per_100g, amount.grams / 100), basis: 'per_100g' };
+        }
+        if (label.per_serving && label.serving_grams) {
+            return { values: scaleValues(label.per_serving, amount.grams / label.serving_grams), basis: 'per_serving' };
+        }
+        throw new LabelError('The label has no per-100g values or serving size. Send servings instead of grams');
+    }
+
+    const servings = amount.servings ?? 1;  // The validator requires one of the two
+    if (label.per_serving) {
+        return { values: scaleValues(label.per_serving, servings), basis: 'per_serving' };
+    }
+    if (label.per_100g && label.serving_grams) {
+        return { values: scaleValues(label.per_100g, (servings * label.serving_grams) / 100), basis: 'per_100g' };
+    }
+    throw new LabelError('The label has no per-serving values or serving size. Send grams instead of servings');
+}
+
+function scaleValues(values: LabelValues, factor: number): LabelValues {
+    return {
+        calories: values.calories * factor,
+        protein: values.protein * factor,
+        carbs: values.carbs * factor,
+        fat: values.fat * factor,
+        // scaleNutrients works per 100g
+        nutrients: scaleNutrients(values.nutrients, factor * 100),
+    };
+}
+
+function round1(value: number): number {
+    return Math.round(value * 10) / 10;
+}
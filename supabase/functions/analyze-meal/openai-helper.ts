@@ -1,8 +1,29 @@
 // OpenAI GPT-4o-mini Vision API integration
 
-import { MacroEstimate } from './types.ts';
+import { AnalysisImage, FoodParseResult, LabelReadResult, ProviderResult, TokenUsage } from './types.ts';
+import { NUTRIENTS_PROMPT_FIELD, NUTRIENTS_PROMPT_RULES } from './nutrients.ts';
+import { FOOD_PARSE_PROMPT, TEXT_ANALYSIS_PROMPT } from './gemini-text-helper.ts';
+import { LABEL_PROMPT, multiImageNote } from './gemini-helper.ts';
+import { addUsage, BilledCallError, OpenAIUsageResponse, usageFromOpenAI } from './pricing.ts';
+import {
+    AIResponseError,
+    FOOD_LIST_FORMAT,
+    MACRO_ESTIMATE_FORMAT,
+    NUTRITION_LABEL_FORMAT,
+    repairInstruction,
+    ResponseFormat,
+    toOpenAISchema,
+} from './structured-output.ts';
+import { CONFIG } from './config.ts';
+import { log, timed } from '../_shared/logger.ts';
 
 const OPENAI_API_KEY = Deno.env.get('OPENAI_API_KEY');
+export const OPENAI_MODEL = 'gpt-4o-mini';
+
+// The parts of a chat completion response read here. All optional: nothing in it is trusted.
+interface OpenAIResponse extends OpenAIUsageResponse {
+    choices?: { message?: { content?: string | null; refusal?: string | null } }[];
+}
 
 const SYSTEM_PROMPT = `You are a nutrition analysis AI specializing in Indian home-cooked meals.
 
@@ -22,9 +43,26 @@ JSON STRUCTURE (respond with ONLY this, nothing else):
   "protein": <number in grams>,
   "carbs": <number in grams>,
   "fat": <number in grams>,
-  "confidence": "low" | "medium" | "high"
+  "confidence": "low" | "medium" | "high",
+  "meal_description": "<brief 1-2 line description of food items>",
+  ${NUTRIENTS_PROMPT_FIELD},
+  "items": [
+    {
+      "name": "<dish name>",
+      "portion_grams": <estimated weight in grams, or null>,
+      "portion_pieces": <count for countable items like roti or idli, or null>,
+      "calories": <number>,
+      "protein": <number in grams>,
+      "carbs": <number in grams>,
+      "fat": <number in grams>
+    }
+  ]
 }
 
+ITEMS: List every visible dish or component once. The meal totals MUST equal the sum of the items.
+
+${NUTRIENTS_PROMPT_RULES}
+
 CONFIDENCE LEVELS:
 - "high": Clear image, recognizable dishes, standard portions
 - "medium": Partially visible, familiar food but uncertain portions
@@ -34,13 +72,19 @@ CONFIDENCE LEVELS:
  * Analyzes a meal image using OpenAI GPT-4o-mini Vision API
  */
 export async function analyzeWithOpenAI(
-    imageUrl: string,
-    description?: string
-): Promise<MacroEstimate> {
+    images: AnalysisImage[],
+    description?: string,
+    personalContext?: string
+): Promise<ProviderResult> {
     if (!OPENAI_API_KEY) {
         throw new Error('OPENAI_API_KEY not configured (OpenAI is optional)');
     }
 
+    // OpenAI vision doesn't accept HEIC - let the chain move on to another provider
+    if (images.some((image) => image.mime_type === 'image/heic')) {
+        throw new Error('OpenAI does not support HEIC images');
+    }
+
     const userContent = description
         ? `🔍 USER PROVIDED MEAL DETAILS: "${description}"
 
@@ -53,88 +97,237 @@ CRITICAL INSTRUCTIONS:
 Provide macro estimates in JSON format only.`
         : 'Provide macro estimates in JSON format only.';
 
+    const userText = [
+        userContent,
+        images.length > 1 ? multiImageNote(images.length) : undefined,
+        personalContext,
+    ].filter(Boolean).join('\n\n');
+
     try {
-        const response = await fetch('https://api.openai.com/v1/chat/completions', {
-            method: 'POST',
-            headers: {
-                'Content-Type': 'application/json',
-                'Authorization': `Bearer ${OPENAI_API_KEY}`,
-            },
-            body: JSON.stringify({
-                model: 'gpt-4o-mini',
-                messages: [
-                    {
-                        role: 'system',
-                        content: SYSTEM_PROMPT,
-                    },
-                    {
-                        role: 'user',
-                        content: [
-                            {
-                                type: 'text',
-                                text: userContent,
-                            },
-                            {
-                                type: 'image_url',
-                                image_url: {
-                                    url: imageUrl,
-                                    detail: 'low', // Use low detail for cost savings
-                                },
+        const { value, usage } = await createOpenAIJSON({
+            messages: [
+                {
+                    role: 'system',
+                    content: SYSTEM_PROMPT,
+                },
+                {
+                    role: 'user',
+                    content: [
+                        {
+                            type: 'text',
+                            text: userText,
+                        },
+                        ...images.map((image) => ({
+                            type: 'image_url',
+                            image_url: {
+                                // Uploaded images have no public URL - send them inline
+                                url: image.url ?? `data:${image.mime_type};base64,${image.data}`,
+                                detail: 'low', // Use low detail for cost savings
                             },
-                        ],
-                    },
-                ],
-                response_format: { type: 'json_object' },
-                temperature: 0.4,
-                max_tokens: 256,
-            }),
-            signal: AbortSignal.timeout(40000), // 40 seconds for OpenAI fallback (increased from 20s)
+                        })),
+                    ],
+                },
+            ],
+            format: MACRO_ESTIMATE_FORMAT,
+            temperature: 0.4,
+            maxTokens: 1024, // Room for the per-item breakdown
+            timeoutMs: 40000, // 40 seconds for OpenAI fallback (increased from 20s)
         });
+        return { macros: value, usage };
+    } catch (error) {
+        log.error('OpenAI analysis failed', { error });
+        throw error;
+    }
+}
 
-        if (!response.ok) {
-            const errorText = await response.text();
-            throw new Error(`OpenAI API error: ${response.status} - ${errorText}`);
-        }
-
-        const data = await response.json();
-
-        // Extract response
-        const text = data.choices?.[0]?.message?.content;
-        if (!text) {
-            throw new Error('No response from OpenAI');
-        }
+/**
+ * Analyzes meal description text (no image) using OpenAI GPT-4o-mini
+ */
+export async function analyzeTextWithOpenAI(
+    description: string,
+    personalContext?: string
+): Promise<ProviderResult> {
+    if (!OPENAI_API_KEY) {
+        throw new Error('OPENAI_API_KEY not configured (OpenAI is optional)');
+    }
 
-        // Parse JSON response
-        const result = parseAIResponse(text);
-        return result;
+    try {
+        const { value, usage } = await createOpenAIJSON({
+            messages: [
+                {
+                    role: 'system',
+                    content: TEXT_ANALYSIS_PROMPT,
+                },
+                {
+                    role: 'user',
+                    content: `Analyze this meal description:\n\n"${description}"\n\nProvide macro estimates in JSON format.` +
+                        (personalContext ? `\n\n${personalContext}` : ''),
+                },
+            ],
+            format: MACRO_ESTIMATE_FORMAT,
+            temperature: 0.3,
+            maxTokens: 1024,
+            timeoutMs: 40000,
+        });
+        return { macros: value, usage };
     } catch (error) {
-        console.error('OpenAI analysis failed:', error);
+        log.error('OpenAI text analysis failed', { error });
         throw error;
     }
 }
 
 /**
- * Parses and validates AI response
+ * Splits a meal description into foods with OpenAI (no nutrition estimate)
  */
-function parseAIResponse(text: string): MacroEstimate {
-    const parsed = JSON.parse(text.trim());
-
-    // Validate structure
-    if (
-        typeof parsed.calories !== 'number' ||
-        typeof parsed.protein !== 'number' ||
-        typeof parsed.carbs !== 'number' ||
-        typeof parsed.fat !== 'number' ||
-        !['low', 'medium', 'high'].includes(parsed.confidence)
-    ) {
-        throw new Error('Invalid response structure from AI');
+export async function parseFoodsWithOpenAI(description: string): Promise<FoodParseResult> {
+    if (!OPENAI_API_KEY) {
+        throw new Error('OPENAI_API_KEY not configured (OpenAI is optional)');
     }
 
-    return {
-        calories: Math.round(parsed.calories),
-        protein: Math.round(parsed.protein * 10) / 10,
-        carbs: Math.round(parsed.carbs * 10) / 10,
-        fat: Math.round(parsed.fat * 10) / 10,
-        confidence: parsed.confidence,
+    const { value, usage } = await createOpenAIJSON({
+        messages: [
+            { role: 'system', content: FOOD_PARSE_PROMPT },
+            { role: 'user', content: `Meal description:\n\n"${description}"` },
+        ],
+        format: FOOD_LIST_FORMAT,
+        temperature: 0,
+        maxTokens: 1024,
+        timeoutMs: CONFIG.OPENAI_TIMEOUT_MS,
+    });
+    return { foods: value, usage };
+}
+
+/**
+ * Transcribes a nutrition facts label with OpenAI (no estimation)
+ */
+export async function readLabelWithOpenAI(images: AnalysisImage[]): Promise<LabelReadResult> {
+    if (!OPENAI_API_KEY) {
+        throw new Error('OPENAI_API_KEY not configured (OpenAI is optional)');
+    }
+
+    if (images.some((image) => image.mime_type === 'image/heic')) {
+        throw new Error('OpenAI does not support HEIC images');
+    }
+
+    const { value, usage } = await createOpenAIJSON({
+        messages: [
+            { role: 'system', content: LABEL_PROMPT },
+            {
+                role: 'user',
+                content: images.map((image) => ({
+                    type: 'image_url',
+                    image_url: {
+                        url: image.url ?? `data:${image.mime_type};base64,${image.data}`,
+                        detail: 'high', // Small print needs the full resolution
+                    },
+                })),
+            },
+        ],
+        format: NUTRITION_LABEL_FORMAT,
+        temperature: 0,
+        maxTokens: 1024,
+        timeoutMs: CONFIG.OPENAI_TIMEOUT_MS,
+    });
+    return { label: value, usage };
+}
+
+interface OpenAIJSONRequest<T> {
+    messages: { role: string; content: unknown }[];
+    format: ResponseFormat<T>;
+    temperature: number;
+    maxTokens: number;
+    timeoutMs: number;
+}
+
+/**
+ * Calls OpenAI with a strict json_schema response format and parses the
+ * result. An unusable response gets one repair turn, the same way as
+ * generateGeminiJSON.
+ */
+async function createOpenAIJSON<T>(request: OpenAIJSONRequest<T>): Promise<{ value: T; usage: TokenUsage }> {
+    const messages = [...request.messages];
+    let usage: TokenUsage | undefined;
+
+    const send = async (): Promise<string> => {
+        let data: OpenAIResponse;
+        try {
+            data = (await timed('provider_call', () => postOpenAI(messages, request), {
+                provider: 'openai',
+                model: OPENAI_MODEL,
+                repair: usage !== undefined,
+            })) as OpenAIResponse;
+        } catch (error) {
+            // A failed repair request still leaves the first one to pay for
+            throw usage ? new BilledCallError((error as Error).message, usage) : error;
+        }
+
+        usage = addUsage(usage, usageFromOpenAI(data, OPENAI_MODEL));
+
+        const message = data.choices?.[0]?.message;
+        if (message?.refusal) {
+            throw new BilledCallError(`OpenAI refused the request: ${message.refusal}`, usage);
+        }
+        if (!message?.content) {
+            throw new BilledCallError('No response from OpenAI', usage);
+        }
+
+        log.debug('OpenAI response text', { text: message.content });
+        return message.content;
     };
+
+    const text = await send();
+    try {
+        return { value: await timed('parse', () => request.format.parse(text), { provider: 'openai' }), usage: usage! };
+    } catch (error) {
+        if (!(error instanceof AIResponseError)) {
+            throw new BilledCallError((error as Error).message, usage!);
+        }
+        log.warn('Unusable OpenAI response, asking for a repair', { error });
+        messages.push(
+            { role: 'assistant', content: text },
+            { role: 'user', content: repairInstruction(error) }
+        );
+    }
+
+    const repaired = await send();
+    try {
+        return { value: await timed('parse', () => request.format.parse(repaired), { provider: 'openai' }), usage: usage! };
+    } catch (error) {
+        throw new BilledCallError(`${(error as Error).message} (after repair retry)`, usage!);
+    }
+}
+
+async function postOpenAI(
+    messages: { role: string; content: unknown }[],
+    request: OpenAIJSONRequest<unknown>
+): Promise<unknown> {
+    const response = await fetch('https://api.openai.com/v1/chat/completions', {
+        method: 'POST',
+        headers: {
+            'Content-Type': 'application/json',
+            'Authorization': `Bearer ${OPENAI_API_KEY}`,
+        },
+        body: JSON.stringify({
+            model: OPENAI_MODEL,
+            messages,
+            response_format: {
+                type: 'json_schema',
+                json_schema: {
+                    name: request.format.name,
+                    strict: true,
+                    schema: toOpenAISchema(request.format.schema),
+                },
+            },
+            temperature: request.temperature,
+            max_tokens: request.maxTokens,
+        }),
+        signal: AbortSignal.timeout(request.timeoutMs),
+    });
+
+    if (!response.ok) {
+        const errorText = await response.text();
+        throw new Error(`OpenAI API error: ${response.status} - ${errorText}`);
+    }
+
+    return await response.json();
 }
@@ -0,0 +1,104 @@
+// Personal few-shot examples: the user's own logged meals as portion calibration
+// Household portions vary a lot (roti size, ghee, katori size), and the user's
+// confirmed or corrected meals say more about them than generic assumptions.
+
+import { PersonalMeal } from './types.ts';
+import { getPersonalMeals, getUserSettings } from './database.ts';
+import { CONFIG } from './config.ts';
+
+// Words that say nothing about which dish it is
+const STOPWORDS = new Set([
+    'and', 'with', 'the', 'some', 'one', 'two', 'three', 'half', 'plate', 'bowl', 'katori', 'cup', 'glass',
+    'small', 'medium', 'large', 'big', 'little', 'home', 'made', 'homemade', 'cooked', 'fresh', 'side',
+    'piece', 'pieces', 'grams', 'gram', 'for', 'lunch', 'dinner', 'breakfast', 'snack', 'meal', 'had',
+]);
+
+/**
+ * Builds the prompt block of the user's matching past meals.
+ * Returns undefined when the user opted out or nothing relevant was found.
+ */
+export async function buildPersonalContext(userId: string, description?: string): Promise<string | undefined> {
+    const settings = await getUserSettings(userId);
+    if (settings?.personalize_estimates === false) {
+        return undefined;
+    }
+
+    const since = new Date(Date.now() - CONFIG.PERSONAL_HISTORY_DAYS * 24 * 60 * 60 * 1000);
+    const history = await getPersonalMeals(userId, since, CONFIG.PERSONAL_HISTORY_LIMIT);
+
+    return formatPersonalContext(selectPersonalExamples(history, description));
+}
+
+/**
+ * Picks the past meals most relevant to this request.
+ * With a description: meals sharing dish words, best match first (corrections win ties).
+ * Without one (photo only): the most recent corrections, as general portion calibration.
+ */
+export function selectPersonalExamples(history: PersonalMeal[], description?: string): PersonalMeal[] {
+    const queryTokens = tokenize(description ?? '');
+
+    if (queryTokens.size === 0) {
+        return history.filter((meal) => meal.user_edited).slice(0, CONFIG.PERSONAL_EXAMPLES_MAX);
+    }
+
+    // History is newest first and sort is stable, so recency breaks the remaining ties
+    return history
+        .map((meal) => ({ meal, score: overlap(queryTokens, tokenize(mealName(meal))) }))
+        .filter(({ score }) => score > 0)
+        .sort((a, b) => b.score - a.score || Number(b.meal.user_edited) - Number(a.meal.user_edited))
+        .slice(0, CONFIG.PERSONAL_EXAMPLES_MAX)
+        .map(({ meal }) => meal);
+}
+
+/**
+ * Formats examples as a prompt block, dropping whole lines that don't fit the budget
+ */
+export function formatPersonalContext(examples: PersonalMeal[]): string | undefined {
+    if (examples.length === 0) {
+        return undefined;
+    }
+
+    let block = `👤 THIS USER'S OWN PAST MEALS (logged and confirmed, or corrected by them):
+Use these to calibrate portion sizes and cooking fat for this household. Do not copy the numbers if the current meal is different.`;
+
+    let included = 0;
+    for (const meal of examples) {
+        const name = mealName(meal).slice(0, 80);
+        const line = `\n- "${name}": ${Math.round(meal.calories)} kcal, protein ${meal.protein}g, carbs ${meal.carbs}g, fat ${meal.fat}g` +
+            (meal.user_edited ? ' (corrected by user)' : '');
+
+        if (block.length + line.length > CONFIG.PERSONAL_CONTEXT_MAX_CHARS) {
+            break;
+        }
+        block += line;
+        included++;
+    }
+
+    return included > 0 ? block : undefined;
+}
+
+/**
+ * What the user typed, or the AI's name for the meal
+ */
+function mealName(meal: PersonalMeal): string {
+    return (meal.description || meal.meal_description || '').trim().replace(/\s+/g, ' ');
+}
+
+function tokenize(text: string): Set<string> {
+    return new Set(
+        text
+            .toLowerCase()
+            .split(/[^a-z]+/)
+            // Crude plural folding so "rotis" matches "roti"
+            .map((word) => (word.length > 4 && word.endsWith('s') ? word.slice(0, -1) : word))
+            .filter((word) => word.length >= 3 && !STOPWORDS.has(word))
+    );
+}
+
+function overlap(a: Set<string>, b: Set<string>): number {
+    let count = 0;
+    for (const token of a) {
+        if (b.has(token)) count++;
+    }
+    return count;
+}
@@ -0,0 +1,41 @@
+// Tests for the plausibility checks
+
+import { assertEquals } from 'https://deno.land/std@0.168.0/testing/asserts.ts';
+import { checkPlausibility } from './plausibility.ts';
+import { MacroEstimate, MealItem } from './types.ts';
+
+function estimate(items: MealItem[]): MacroEstimate {
+    const sum = (key: 'calories' | 'protein' | 'carbs' | 'fat') => items.reduce((total, item) => total + item[key], 0);
+    return {
+        calories: sum('calories'),
+        protein: sum('protein'),
+        carbs: sum('carbs'),
+        fat: sum('fat'),
+        confidence: 'high',
+        items,
+    };
+}
+
+Deno.test('checkPlausibility leaves foods the table does not cover alone', () => {
+    const greenTea: MealItem = { name: 'Green tea', portion_grams: 250, calories: 2, protein: 0, carbs: 0.5, fat: 0 };
+    const result = checkPlausibility(estimate([greenTea]));
+    assertEquals(result.warnings, []);
+    assertEquals(result.macros.items, [greenTea]);
+    assertEquals(result.macros.confidence, 'high');
+});
+
+Deno.test('checkPlausibility flags but keeps items far below the table', () => {
+    const tea: MealItem = { name: 'Tea', portion_grams: 250, calories: 2, protein: 0, carbs: 0.5, fat: 0 };
+    const result = checkPlausibility(estimate([tea]));
+    assertEquals(result.warnings.map((warning) => warning.code), ['item_out_of_range']);
+    assertEquals(result.macros.items, [tea]);
+    assertEquals(result.macros.confidence, 'medium');
+});
+
+Deno.test('checkPlausibility replaces items far above the table', () => {
+    const rice: MealItem = { name: 'Steamed rice', portion_grams: 100, calories: 600, protein: 10, carbs: 120, fat: 6.7 };
+    const result = checkPlausibility(estimate([rice]));
+    assertEquals(result.warnings.map((warning) => warning.code), ['item_adjusted']);
+    assertEquals(result.macros.items?.[0], { ...rice, calories: 130, protein: 2.7, carbs: 28.2, fat: 0.3 });
+    assertEquals(result.macros.calories, 130);
+});
@@ -0,0 +1,147 @@
+// Plausibility checks for AI estimates
+// Run once the totals match the items. Gross 4/4/9 mismatches never get this
+// far - structured-output rejects them and the provider is asked again.
+// What's left is fixed where there's a better number (the food table, the
+// macros) and flagged otherwise. Any warning lowers the confidence one step.
+
+import { AnalysisWarning, MacroEstimate, MealItem } from './types.ts';
+import { matchFood } from './food-grounding.ts';
+import { scaleItemsToTotals, sumItems } from './meal-items.ts';
+import { CONFIG } from './config.ts';
+import { log } from '../_shared/logger.ts';
+
+export interface PlausibilityResult {
+    macros: MacroEstimate;
+    warnings: AnalysisWarning[];
+}
+
+const LOWER_CONFIDENCE = { high: 'medium', medium: 'low', low: 'low' } as const;
+
+const LIMIT_UNITS = { calories: 'kcal', protein: 'g protein', carbs: 'g carbs', fat: 'g fat' } as const;
+
+/**
+ * Checks an estimate against the food table, 4/4/9 and typical meal sizes
+ */
+export function checkPlausibility(estimate: MacroEstimate): PlausibilityResult {
+    const warnings: AnalysisWarning[] = [];
+    let macros = estimate;
+
+    if (macros.items) {
+        const items = macros.items.map((item) => checkItem(item, warnings));
+        if (items.some((item, i) => item !== macros.items![i])) {
+            macros = { ...macros, ...sumItems(items), items };
+        }
+    }
+
+    macros = checkEnergyBalance(macros, warnings);
+    checkMealLimits(macros, warnings);
+
+    if (warnings.length > 0) {
+        // The messages name the foods - those stay out of normal logs
+        log.warn('Plausibility warnings', { codes: warnings.map((warning) => warning.code) });
+        log.debug('Plausibility warning details', { warnings });
+        macros = { ...macros, confidence: LOWER_CONFIDENCE[macros.confidence] };
+    }
+
+    return { macros, warnings };
+}
+
+/**
+ * Compares an item with the food table entry of the same name, for the same
+ * portion. Items the table doesn't know, or without a portion, pass as is.
+ * Only estimates far above the table are replaced: one far below is more
+ * likely a lighter food under the same name (black tea, skimmed milk), so
+ * it's flagged instead.
+ */
+function checkItem(item: MealItem, warnings: AnalysisWarning[]): MealItem {
+    const entry = matchFood(item.name);
+    if (!entry) {
+        return item;
+    }
+
+    const grams = item.portion_grams ??
+        (item.portion_pieces && entry.piece_grams ? item.portion_pieces * entry.piece_grams : undefined);
+    if (!grams) {
+        return item;
+    }
+
+    const reference = Math.round((entry.calories * grams) / 100);
+    if (reference < CONFIG.ITEM_REFERENCE_MIN_KCAL) {
+        return item;
+    }
+
+    const ratio = item.calories / reference;
+    const off = Math.max(ratio, 1 / ratio);
+    if (off <= CONFIG.ITEM_REFERENCE_WARN_RATIO) {
+        return item;
+    }
+
+    const portion = item.portion_grams !== undefined ? `${item.portion_grams} g` : `${item.portion_pieces} pieces`;
+
+    if (off <= CONFIG.ITEM_REFERENCE_REPLACE_RATIO || ratio < 1) {
+        warnings.push({
+            code: 'item_out_of_range',
+            item: item.name,
+            message: `${item.name}: ${item.calories} kcal for ${portion} is unusual (typically about ${reference} kcal)`,
+        });
+        return item;
+    }
+
+    warnings.push({
+        code: 'item_adjusted',
+        item: item.name,
+        message: `${item.name}: ${item.calories} kcal for ${portion} looked wrong, replaced with typical values (${reference} kcal)`,
+    });
+
+    const factor = grams / 100;
+    return {
+        ...item,
+        calories: reference,
+        protein: Math.round(entry.protein * factor * 10) / 10,
+        carbs: Math.round(entry.carbs * factor * 10) / 10,
+        fat: Math.round(entry.fat * factor * 10) / 10,
+    };
+}
+
+/**
+ * Recomputes calories from 4/4/9 when they drift from the macros. The macros
+ * win: they are what the items carry and what users edit.
+ */
+function checkEnergyBalance(macros: MacroEstimate, warnings: AnalysisWarning[]): MacroEstimate {
+    const fromMacros = Math.round(4 * macros.protein + 4 * macros.carbs + 9 * macros.fat);
+    const gap = Math.abs(macros.calories - fromMacros);
+    const allowed = Math.max(
+        CONFIG.PLAUSIBILITY_ENERGY_MIN_KCAL,
+        CONFIG.PLAUSIBILITY_ENERGY_TOLERANCE * Math.max(macros.calories, fromMacros)
+    );
+
+    if (gap <= allowed) {
+        return macros;
+    }
+
+    warnings.push({
+        code: 'calories_adjusted',
+        message: `Calories adjusted from ${macros.calories} to ${fromMacros} to match the protein, carbs and fat`,
+    });
+
+    return {
+        ...macros,
+        calories: fromMacros,
+        items: macros.items && scaleItemsToTotals(macros.items, { ...macros, calories: fromMacros }),
+    };
+}
+
+/**
+ * Flags meals above the typical upper end. Big meals happen, so nothing is changed.
+ */
+function checkMealLimits(macros: MacroEstimate, warnings: AnalysisWarning[]): void {
+    for (const key of ['calories', 'protein', 'carbs', 'fat'] as const) {
+        const limit = CONFIG.PLAUSIBLE_MEAL_LIMITS[key];
+        if (macros[key] > limit) {
+            warnings.push({
+                code: 'large_meal',
+                message: `${macros[key]} ${LIMIT_UNITS[key]} is more than a typical meal (${limit}) - check the portion sizes`,
+            });
+        }
+    }
+}
@@ -0,0 +1,120 @@
+// Token usage extraction and cost calculation
+
+import { AIModel, ModelCall, TokenUsage } from './types.ts';
+import { CONFIG } from './config.ts';
+import { log } from '../_shared/logger.ts';
+
+/**
+ * Error for a call that was billed but couldn't be used (e.g. unparseable JSON).
+ * Carries the token usage so the cost still gets recorded.
+ */
+export class BilledCallError extends Error {
+    usage: TokenUsage;
+
+    constructor(message: string, usage: TokenUsage) {
+        super(message);
+        this.name = 'BilledCallError';
+        this.usage = usage;
+    }
+}
+
+// The parts of the provider responses that carry token usage
+export interface GeminiUsageResponse {
+    usageMetadata?: {
+        promptTokenCount?: number;
+        candidatesTokenCount?: number;
+        thoughtsTokenCount?: number;  // Thinking models bill thoughts as output
+    };
+}
+
+export interface OpenAIUsageResponse {
+    usage?: {
+        prompt_tokens?: number;
+        completion_tokens?: number;
+    };
+}
+
+/**
+ * Reads token usage from a Gemini generateContent response (`usageMetadata`)
+ */
+export function usageFromGemini(data: GeminiUsageResponse | null | undefined, model: string): TokenUsage {
+    const meta = data?.usageMetadata ?? {};
+    return {
+        model,
+        input_tokens: meta.promptTokenCount ?? 0,
+        output_tokens: (meta.candidatesTokenCount ?? 0) + (meta.thoughtsTokenCount ?? 0),
+    };
+}
+
+/**
+ * Reads token usage from an OpenAI chat completion response (`usage`)
+ */
+export function usageFromOpenAI(data: OpenAIUsageResponse | null | undefined, model: string): TokenUsage {
+    const usage = data?.usage ?? {};
+    return {
+        model,
+        input_tokens: usage.prompt_tokens ?? 0,
+        output_tokens: usage.completion_tokens ?? 0,
+    };
+}
+
+/**
+ * Adds up the usage of several requests to the same model (e.g. a repair retry)
+ */
+export function addUsage(total: TokenUsage | undefined, usage: TokenUsage): TokenUsage {
+    if (!total) {
+        return usage;
+    }
+    return {
+        model: usage.model,
+        input_tokens: total.input_tokens + usage.input_tokens,
+        output_tokens: total.output_tokens + usage.output_tokens,
+    };
+}
+
+/**
+ * Computes the cost of a call (in INR) from the per-model price table
+ */
+export function calculateCostInr(usage: TokenUsage): number {
+    let pricing = CONFIG.MODEL_PRICING_INR[usage.model];
+    if (!pricing) {
+        log.warn('No pricing for model, using default pricing', { model: usage.model });
+        pricing = CONFIG.DEFAULT_PRICING_INR;
+    }
+
+    const cost =
+        (usage.input_tokens / 1_000_000) * pricing.input_per_million +
+        (usage.output_tokens / 1_000_000) * pricing.output_per_million;
+
+    return Math.round(cost * 1_000_000) / 1_000_000;
+}
+
+/**
+ * Builds the accounting record for one model call.
+ * Failed calls without usage (HTTP errors, timeouts) are recorded at zero cost.
+ */
+export function buildModelCall(
+    provider: AIModel,
+    usage: TokenUsage | undefined,
+    outcome: ModelCall['outcome'],
+    latencyMs: number,
+    fallback = false
+): ModelCall {
+    return {
+        provider,
+        model: usage?.model,
+        input_tokens: usage?.input_tokens ?? 0,
+        output_tokens: usage?.output_tokens ?? 0,
+        cost_inr: usage ? calculateCostInr(usage) : 0,
+        outcome,
+        latency_ms: Math.round(latencyMs),
+        fallback,
+    };
+}
+
+/**
+ * Usage attached to a failed call, if it was billed
+ */
+export function usageFromError(error: unknown): TokenUsage | undefined {
+    return error instanceof BilledCallError ? error.usage : undefined;
+}
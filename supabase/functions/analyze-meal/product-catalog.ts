@@ -0,0 +1,172 @@
+// Packaged food lookup by barcode (EAN/UPC)
+// Catalogs are tried in order: the local products table, then an optional
+// Open Food Facts-compatible HTTP API. Products found remotely are copied
+// into the products table, so each barcode is fetched from outside once.
+
+import { LabelValues, Product, ProductCatalog } from './types.ts';
+import { getProduct, saveProduct } from './database.ts';
+import { parseNutrients } from './nutrients.ts';
+import { CONFIG } from './config.ts';
+import { log } from '../_shared/logger.ts';
+
+const LOCAL_CATALOG = 'products';
+
+const registry = new Map<string, ProductCatalog>();
+
+/**
+ * Registers a catalog so it can be referenced from PRODUCT_CATALOGS
+ */
+export function registerCatalog(catalog: ProductCatalog): void {
+    registry.set(catalog.name, catalog);
+}
+
+registerCatalog({
+    name: LOCAL_CATALOG,
+    isConfigured: () => true,
+    lookup: getProduct,
+});
+
+registerCatalog({
+    name: 'openfoodfacts',
+    isConfigured: () => !!CONFIG.PRODUCT_CATALOG_URL,
+    lookup: lookupOpenFoodFacts,
+});
+
+/**
+ * Finds a product in the configured catalogs, null when none has it.
+ * A failing catalog is skipped, never failing the request.
+ */
+export async function lookupProduct(barcode: string): Promise<Product | null> {
+    for (const name of CONFIG.PRODUCT_CATALOG_CHAIN) {
+        const catalog = registry.get(name);
+        if (!catalog) {
+            log.warn('Unknown product catalog', { catalog: name });
+            continue;
+        }
+        if (!catalog.isConfigured()) {
+            continue;
+        }
+
+        let product: Product | null;
+        try {
+            product = await catalog.lookup(barcode);
+        } catch (error) {
+            log.error('Product lookup failed', { catalog: name, error });
+            continue;
+        }
+
+        if (!product) {
+            continue;
+        }
+
+        log.info('Barcode found', { barcode, catalog: name });
+        if (name !== LOCAL_CATALOG) {
+            await saveProduct(product).catch((saveError) =>
+                log.error('Failed to store product locally', { error: saveError })
+            );
+        }
+        return product;
+    }
+
+    return null;
+}
+
+/**
+ * Looks a barcode up in an Open Food Facts-compatible API (v2 product endpoint)
+ */
+async function lookupOpenFoodFacts(barcode: string): Promise<Product | null> {
+    // Relative to the base, so a path prefix in the catalog URL is kept
+    const base = CONFIG.PRODUCT_CATALOG_URL ?? '';
+    const url = new URL(`api/v2/product/${barcode}.json`, base.endsWith('/') ? base : `${base}/`);
+    url.searchParams.set('fields', 'product_name,serving_quantity,nutriments');
+
+    const response = await fetch(url, {
+        headers: { 'User-Agent': 'AI-MacroLens/1.0' },  // Open Food Facts asks clients to identify themselves
+        signal: AbortSignal.timeout(CONFIG.PRODUCT_CATALOG_TIMEOUT_MS),
+    });
+
+    if (response.status === 404) {
+        return null;
+    }
+    if (!response.ok) {
+        throw new Error(`Product catalog error: ${response.status}`);
+    }
+
+    return parseOpenFoodFactsProduct(barcode, await response.json());
+}
+
+/**
+ * Maps an Open Food Facts product to a Product. Null when the product is
+ * unknown or has no usable macros (many entries only have a name).
+ */
+export function parseOpenFoodFactsProduct(barcode: string, data: unknown): Product | null {
+    const response = isRecord(data) ? data : {};
+    if (response.status !== 1 || !isRecord(response.product)) {
+        return null;
+    }
+
+    const product = response.product;
+    const nutriments = isRecord(product.nutriments) ? product.nutriments : {};
+    const per100g = offValues(nutriments, '100g');
+    const perServing = offValues(nutriments, 'serving');
+    if (!per100g && !perServing) {
+        return null;
+    }
+
+    const servingGrams = Number(product.serving_quantity);
+
+    return {
+        barcode,
+        product_name: typeof product.product_name === 'string' && product.product_name ? product.product_name : undefined,
+        serving_grams: Number.isFinite(servingGrams) && servingGrams > 0 ? servingGrams : undefined,
+        per_100g: per100g,
+        per_serving: perServing,
+        source: 'openfoodfacts',
+    };
+}
+
+/**
+ * One column of Open Food Facts nutriments ("_100g" or "_serving" suffix).
+ * Open Food Facts stores sodium, iron and calcium in grams.
+ */
+function offValues(nutriments: Record<string, unknown>, suffix: '100g' | 'serving'): LabelValues | undefined {
+    const value = (key: string): number | undefined => {
+        const raw = nutriments[`${key}_${suffix}`];
+        const number = typeof raw === 'string' ? Number(raw) : raw;
+        return typeof number === 'number' && Number.isFinite(number) && number >= 0 ? number : undefined;
+    };
+
+    const kj = value('energy-kj') ?? value('energy');
+    const calories = value('energy-kcal') ?? (kj !== undefined ? kj / 4.184 : undefined);
+    const protein = value('proteins');
+    const carbs = value('carbohydrates');
+    const fat = value('fat');
+
+    if (calories === undefined || protein === undefined || carbs === undefined || fat === undefined) {
+        return undefined;
+    }
+
+    const milligrams = (key: string) => {
+        const grams = value(key);
+        return grams !== undefined ? grams * 1000 : undefined;
+    };
+
+    return {
+        calories,
+        protein,
+        carbs,
+        fat,
+        nutrients: parseNutrients({
+            fiber: value('fiber'),
+            sugar: value('sugars'),
+            saturated_fat: value('saturated-fat'),
+            sodium: milligrams('sodium'),
+            iron: milligrams('iron'),
+            calcium: milligrams('calcium'),
+        }),
+    };
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,162 @@
+// AI provider registry and fallback chain
+// To add a provider (Claude, a local Ollama server, a mock...), implement
+// AIProvider, register it below and add its name to the chain in config/env.
+
+import { AIModel, AIProvider, AnalysisInput, AnalysisMode, MacroEstimate, ModelCall, ProgressReporter } from './types.ts';
+import { analyzeWithGemini, GEMINI_MODEL, readLabelWithGemini } from './gemini-helper.ts';
+import { analyzeTextWithGemini, parseFoodsWithGemini } from './gemini-text-helper.ts';
+import {
+    analyzeWithOpenAI,
+    analyzeTextWithOpenAI,
+    OPENAI_MODEL,
+    parseFoodsWithOpenAI,
+    readLabelWithOpenAI,
+} from './openai-helper.ts';
+import { buildModelCall, usageFromError } from './pricing.ts';
+import { CONFIG } from './config.ts';
+import { log } from '../_shared/logger.ts';
+
+const registry = new Map<string, AIProvider>();
+
+/**
+ * Registers a provider so it can be referenced from a fallback chain
+ */
+export function registerProvider(provider: AIProvider): void {
+    registry.set(provider.name, provider);
+}
+
+/**
+ * Looks up a registered provider by name
+ */
+export function getProvider(name: string): AIProvider | undefined {
+    return registry.get(name);
+}
+
+registerProvider({
+    name: 'gemini',
+    model: GEMINI_MODEL,
+    modes: ['image', 'text', 'label'],
+    isConfigured: () => !!Deno.env.get('GEMINI_API_KEY'),
+    analyze: (input) =>
+        input.mode === 'image'
+            ? analyzeWithGemini(input.images!, input.description, input.personalContext)
+            : analyzeTextWithGemini(input.description!, input.personalContext),
+    parseFoods: parseFoodsWithGemini,
+    readLabel: readLabelWithGemini,
+});
+
+registerProvider({
+    name: 'openai',
+    model: OPENAI_MODEL,
+    modes: ['image', 'text', 'label'],
+    isConfigured: () => !!Deno.env.get('OPENAI_API_KEY'),
+    analyze: (input) =>
+        input.mode === 'image'
+            ? analyzeWithOpenAI(input.images!, input.description, input.personalContext)
+            : analyzeTextWithOpenAI(input.description!, input.personalContext),
+    parseFoods: parseFoodsWithOpenAI,
+    readLabel: readLabelWithOpenAI,
+});
+
+/**
+ * Resolves the configured chain for a mode into usable providers, or the
+ * given providers instead (see AnalysisInput.providers).
+ * Label reading is a vision task, so it uses the image chain.
+ */
+export function resolveProviderChain(mode: AnalysisMode, override?: readonly AIModel[]): AIProvider[] {
+    return resolveProviders(
+        override ?? (mode === 'text' ? CONFIG.TEXT_PROVIDER_CHAIN : CONFIG.IMAGE_PROVIDER_CHAIN),
+        mode
+    );
+}
+
+/**
+ * Resolves provider names into usable providers for a mode.
+ * Unknown, unconfigured or incompatible providers are skipped.
+ */
+export function resolveProviders(names: readonly string[], mode: AnalysisMode): AIProvider[] {
+    const chain: AIProvider[] = [];
+
+    for (const name of names) {
+        const provider = registry.get(name);
+        if (!provider) {
+            log.warn('Unknown AI provider', { provider: name });
+            continue;
+        }
+        if (!provider.modes.includes(mode)) {
+            log.warn('AI provider does not support this mode, skipping', { provider: name, mode });
+            continue;
+        }
+        if (!provider.isConfigured()) {
+            log.info('AI provider not configured, skipping', { provider: name });
+            continue;
+        }
+        chain.push(provider);
+    }
+
+    return chain;
+}
+
+export class ProviderChainError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'ProviderChainError';
+    }
+}
+
+export interface ChainResult {
+    macros: MacroEstimate;
+    provider: AIProvider;
+}
+
+/**
+ * Runs the fallback chain for the input's mode.
+ * Moves on to the next provider when one fails or returns low confidence;
+ * if every result is low confidence, the first one is used.
+ * Every call made is appended to `calls` (also when the chain throws),
+ * including low-confidence results that end up discarded.
+ */
+export async function runProviderChain(
+    input: AnalysisInput,
+    calls: ModelCall[],
+    onProgress?: ProgressReporter
+): Promise<ChainResult> {
+    const chain = resolveProviderChain(input.mode, input.providers);
+    if (chain.length === 0) {
+        throw new ProviderChainError(`No AI provider configured for ${input.mode} mode`);
+    }
+
+    let lowConfidenceResult: (ChainResult & { call: ModelCall }) | undefined;
+
+    for (const [index, provider] of chain.entries()) {
+        onProgress?.({ stage: index === 0 ? 'analyzing' : 'fallback', provider: provider.name });
+        const startedAt = Date.now();
+        try {
+            log.info('Attempting analysis', { provider: provider.name, mode: input.mode });
+            const { macros, usage } = await provider.analyze(input);
+            const call = buildModelCall(provider.name, usage, 'discarded', Date.now() - startedAt, index > 0);
+            calls.push(call);
+
+            if (macros.confidence !== 'low') {
+                call.outcome = 'used';
+                return { macros, provider };
+            }
+
+            log.info('Low confidence, trying next provider', { provider: provider.name });
+            lowConfidenceResult ??= { macros, provider, call };
+        } catch (error) {
+            log.error('Provider analysis failed', { provider: provider.name, error });
+            calls.push(buildModelCall(provider.name, usageFromError(error), 'failed', Date.now() - startedAt, index > 0));
+        }
+    }
+
+    if (lowConfidenceResult) {
+        log.info('No provider beat low confidence, using the first result', {
+            provider: lowConfidenceResult.provider.name,
+        });
+        lowConfidenceResult.call.outcome = 'used';
+        return { macros: lowConfidenceResult.macros, provider: lowConfidenceResult.provider };
+    }
+
+    throw new ProviderChainError(`All AI providers failed for ${input.mode} mode`);
+}
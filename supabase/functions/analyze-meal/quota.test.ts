@@ -0,0 +1,63 @@
+// Tests for quota window selection and rate limit headers
+
+import { assertEquals } from 'https://deno.land/std@0.168.0/testing/asserts.ts';
+import { bindingWindow, quotaMode, rateLimitHeaders, retryAfterSeconds, windowResetAt } from './quota.ts';
+import { QuotaReservation } from './database.ts';
+import { QuotaWindow } from './types.ts';
+
+function reservation(allowed: boolean, windows: QuotaWindow[]): QuotaReservation {
+    return { allowed, plan: 'free', usage_date: '2026-03-15', windows };
+}
+
+Deno.test('quotaMode counts labels as image analyses', () => {
+    assertEquals(quotaMode('image'), 'image');
+    assertEquals(quotaMode('label'), 'image');
+    assertEquals(quotaMode('text'), 'text');
+});
+
+Deno.test('windowResetAt is the next UTC midnight or the 1st of next month', () => {
+    const cases: [QuotaWindow['window'], string, string][] = [
+        ['daily', '2026-03-15', '2026-03-16T00:00:00.000Z'],
+        ['image_daily', '2026-03-31', '2026-04-01T00:00:00.000Z'],
+        ['monthly', '2026-03-15', '2026-04-01T00:00:00.000Z'],
+        ['monthly', '2026-12-31', '2027-01-01T00:00:00.000Z'],
+    ];
+    for (const [window, usageDate, expected] of cases) {
+        assertEquals(windowResetAt({ window, limit: 1, used: 0 }, usageDate).toISOString(), expected, `${window} ${usageDate}`);
+    }
+});
+
+Deno.test('bindingWindow picks the window that decides the response', () => {
+    const cases: [string, QuotaReservation, QuotaWindow['window']][] = [
+        ['allowed: fewest remaining', reservation(true, [
+            { window: 'daily', limit: 10, used: 4 },
+            { window: 'image_daily', limit: 5, used: 4 },
+            { window: 'monthly', limit: 100, used: 40 },
+        ]), 'image_daily'],
+        ['refused: the only full window', reservation(false, [
+            { window: 'daily', limit: 10, used: 10 },
+            { window: 'monthly', limit: 100, used: 40 },
+        ]), 'daily'],
+        ['refused: the full window that resets last', reservation(false, [
+            { window: 'daily', limit: 10, used: 10 },
+            { window: 'monthly', limit: 100, used: 100 },
+        ]), 'monthly'],
+    ];
+    for (const [name, quota, expected] of cases) {
+        assertEquals(bindingWindow(quota).window, expected, name);
+    }
+});
+
+Deno.test('rateLimitHeaders and retryAfterSeconds report the binding window', () => {
+    const quota = reservation(false, [
+        { window: 'daily', limit: 10, used: 10 },
+        { window: 'monthly', limit: 100, used: 40 },
+    ]);
+    const headers = rateLimitHeaders(quota);
+    assertEquals(headers['X-RateLimit-Limit'], '10');
+    assertEquals(headers['X-RateLimit-Remaining'], '0');
+    assertEquals(headers['X-RateLimit-Reset'], String(Date.UTC(2026, 2, 16) / 1000));
+
+    assertEquals(retryAfterSeconds(quota, new Date('2026-03-15T23:00:00Z')), 3600);
+    assertEquals(retryAfterSeconds(quota, new Date('2026-03-16T00:00:30Z')), 1);  // Already reset
+});
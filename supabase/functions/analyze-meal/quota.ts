@@ -0,0 +1,78 @@
+// Quota plans: which limit applies to a request and how it's reported
+// Limits and usage come from reserve_ai_quota (plans, overrides and the
+// counting itself live in SQL - see the quota_plans migration).
+
+import { AnalysisMode, QuotaMode, QuotaWindow } from './types.ts';
+import { QuotaReservation } from './database.ts';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const WINDOW_NAMES: Record<QuotaWindow['window'], string> = {
+    daily: 'AI analyses per day',
+    image_daily: 'image analyses per day',
+    text_daily: 'text analyses per day',
+    monthly: 'AI analyses per month',
+};
+
+/**
+ * Quota bucket for an analysis mode. Labels are read from photos, so they count as image.
+ */
+export function quotaMode(mode: AnalysisMode): QuotaMode {
+    return mode === 'text' ? 'text' : 'image';
+}
+
+/**
+ * The window a response reports. Refused: the full window that resets last
+ * (retrying before then fails again). Allowed: the one closest to running out.
+ */
+export function bindingWindow(reservation: QuotaReservation): QuotaWindow {
+    const full = reservation.windows.filter((window) => window.used >= window.limit);
+    if (!reservation.allowed && full.length > 0) {
+        return full.reduce((a, b) =>
+            windowResetAt(b, reservation.usage_date) > windowResetAt(a, reservation.usage_date) ? b : a
+        );
+    }
+    return reservation.windows.reduce((a, b) => (b.limit - b.used < a.limit - a.used ? b : a));
+}
+
+/**
+ * Daily windows reset at the next UTC midnight, monthly ones on the 1st
+ */
+export function windowResetAt(window: QuotaWindow, usageDate: string): Date {
+    const day = new Date(`${usageDate}T00:00:00Z`);
+    return window.window === 'monthly'
+        ? new Date(Date.UTC(day.getUTCFullYear(), day.getUTCMonth() + 1, 1))
+        : new Date(day.getTime() + DAY_MS);
+}
+
+/**
+ * X-RateLimit-* headers (Reset is a Unix timestamp in seconds)
+ */
+export function rateLimitHeaders(reservation: QuotaReservation): Record<string, string> {
+    const window = bindingWindow(reservation);
+    return {
+        'X-RateLimit-Limit': String(window.limit),
+        'X-RateLimit-Remaining': String(Math.max(window.limit - window.used, 0)),
+        'X-RateLimit-Reset': String(Math.floor(windowResetAt(window, reservation.usage_date).getTime() / 1000)),
+        // Browsers hide non-standard headers from scripts unless exposed
+        'Access-Control-Expose-Headers': 'X-RateLimit-Limit, X-RateLimit-Remaining, X-RateLimit-Reset, Retry-After',
+    };
+}
+
+/**
+ * Seconds until a refused request can succeed
+ */
+export function retryAfterSeconds(reservation: QuotaReservation, now = new Date()): number {
+    const resetAt = windowResetAt(bindingWindow(reservation), reservation.usage_date);
+    return Math.max(Math.ceil((resetAt.getTime() - now.getTime()) / 1000), 1);
+}
+
+/**
+ * User-facing 429 details
+ */
+export function quotaExceededMessage(reservation: QuotaReservation): string {
+    const window = bindingWindow(reservation);
+    const resetAt = windowResetAt(window, reservation.usage_date);
+    return `Limit of ${window.limit} ${WINDOW_NAMES[window.window]} reached on the ${reservation.plan} plan. ` +
+        `Resets at ${resetAt.toISOString()}.`;
+}
@@ -0,0 +1,420 @@
+// Structured output shared by all AI providers
+// Each response type has one schema. It is sent to the providers in their own
+// dialect (Gemini responseSchema, OpenAI json_schema) and checked again here:
+// provider schemas can't express ranges or cross-field rules like 4/4/9.
+// An invalid response gets one repair retry (see the provider helpers).
+
+import { LabelValues, MacroEstimate, NutritionLabel, ParsedFood } from './types.ts';
+import { parseMealItems } from './meal-items.ts';
+import { NUTRIENT_KEYS, parseNutrients } from './nutrients.ts';
+import { CONFIG } from './config.ts';
+
+/**
+ * A model response that can't be used. The message is written for the model
+ * as much as for the logs - it is sent back in the repair retry.
+ */
+export class AIResponseError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'AIResponseError';
+    }
+}
+
+// Not JSON at all (truncated output, prose around the object)
+export class MalformedJSONError extends AIResponseError {
+    constructor(message: string) {
+        super(message);
+        this.name = 'MalformedJSONError';
+    }
+}
+
+// Valid JSON with a missing field, a wrong type or a value out of range
+export class SchemaViolationError extends AIResponseError {
+    path: string;  // e.g. "$.items[2].calories"
+
+    constructor(path: string, message: string) {
+        super(`${path} ${message}`);
+        this.name = 'SchemaViolationError';
+        this.path = path;
+    }
+}
+
+// Well-formed, but the numbers contradict each other (calories vs 4/4/9)
+export class ImplausibleEstimateError extends AIResponseError {
+    constructor(message: string) {
+        super(message);
+        this.name = 'ImplausibleEstimateError';
+    }
+}
+
+/**
+ * The subset of JSON Schema both providers understand. Ranges are only
+ * enforced by validateSchema().
+ */
+export type SchemaNode =
+    | { type: 'number'; minimum?: number; maximum?: number; nullable?: boolean }
+    | { type: 'string'; enum?: readonly string[]; nullable?: boolean }
+    | { type: 'boolean'; nullable?: boolean }
+    | { type: 'array'; items: SchemaNode; nullable?: boolean }
+    | { type: 'object'; properties: Record<string, SchemaNode>; required: readonly string[]; nullable?: boolean };
+
+export interface ResponseFormat<T> {
+    name: string;  // Schema name sent to OpenAI
+    schema: SchemaNode;
+    parse(text: string): T;  // Throws AIResponseError for unusable responses
+}
+
+const grams = (maximum: number): SchemaNode => ({ type: 'number', minimum: 0, maximum });
+
+const MACRO_PROPERTIES = {
+    calories: grams(CONFIG.MAX_MEAL_CALORIES),
+    protein: grams(CONFIG.MAX_MEAL_MACRO_GRAMS),
+    carbs: grams(CONFIG.MAX_MEAL_MACRO_GRAMS),
+    fat: grams(CONFIG.MAX_MEAL_MACRO_GRAMS),
+};
+
+// Out-of-range nutrients are dropped by parseNutrients, not rejected
+const NUTRIENTS_SCHEMA: SchemaNode = {
+    type: 'object',
+    properties: Object.fromEntries(NUTRIENT_KEYS.map((key) => [key, { type: 'number', nullable: true }])),
+    required: [],
+    nullable: true,
+};
+
+const MACRO_ESTIMATE_SCHEMA: SchemaNode = {
+    type: 'object',
+    properties: {
+        ...MACRO_PROPERTIES,
+        confidence: { type: 'string', enum: ['low', 'medium', 'high'] },
+        meal_description: { type: 'string' },
+        nutrients: NUTRIENTS_SCHEMA,
+        items: {
+            type: 'array',
+            items: {
+                type: 'object',
+                properties: {
+                    name: { type: 'string' },
+                    portion_grams: { type: 'number', minimum: 0 },
+                    portion_pieces: { type: 'number', minimum: 0 },
+                    ...MACRO_PROPERTIES,
+                },
+                required: ['name', 'calories', 'protein', 'carbs', 'fat'],
+            },
+        },
+    },
+    required: ['calories', 'protein', 'carbs', 'fat', 'confidence'],
+};
+
+const FOOD_LIST_SCHEMA: SchemaNode = {
+    type: 'object',
+    properties: {
+        foods: {
+            type: 'array',
+            items: {
+                type: 'object',
+                properties: {
+                    food: { type: 'string' },
+                    quantity: { type: 'number', minimum: 0 },
+                    unit: { type: 'string' },
+                    preparation: { type: 'string' },
+                },
+                required: ['food', 'quantity', 'unit'],
+            },
+        },
+    },
+    required: ['foods'],
+};
+
+const LABEL_VALUES_SCHEMA: SchemaNode = {
+    type: 'object',
+    properties: { ...MACRO_PROPERTIES, nutrients: NUTRIENTS_SCHEMA },
+    required: ['calories', 'protein', 'carbs', 'fat'],
+    nullable: true,
+};
+
+const NUTRITION_LABEL_SCHEMA: SchemaNode = {
+    type: 'object',
+    properties: {
+        legible: { type: 'boolean' },
+        product_name: { type: 'string' },
+        serving_grams: { type: 'number', minimum: 0 },
+        per_100g: LABEL_VALUES_SCHEMA,
+        per_serving: LABEL_VALUES_SCHEMA,
+    },
+    required: ['legible'],
+};
+
+// Response shapes once validateSchema() has passed. Optional fields may be null.
+interface RawMacroEstimate {
+    calories: number;
+    protein: number;
+    carbs: number;
+    fat: number;
+    confidence: MacroEstimate['confidence'];
+    meal_description?: string | null;
+    items?: unknown;
+    nutrients?: unknown;
+}
+
+interface RawFoodList {
+    foods: { food: string; quantity: number; unit: string; preparation?: string | null }[];
+}
+
+interface RawLabelValues {
+    calories: number;
+    protein: number;
+    carbs: number;
+    fat: number;
+    nutrients?: unknown;
+}
+
+interface RawNutritionLabel {
+    legible: boolean;
+    product_name?: string | null;
+    serving_grams?: number | null;
+    per_100g?: RawLabelValues | null;
+    per_serving?: RawLabelValues | null;
+}
+
+export const MACRO_ESTIMATE_FORMAT: ResponseFormat<MacroEstimate> = {
+    name: 'macro_estimate',
+    schema: MACRO_ESTIMATE_SCHEMA,
+    parse: parseMacroEstimate,
+};
+
+export const FOOD_LIST_FORMAT: ResponseFormat<ParsedFood[]> = {
+    name: 'food_list',
+    schema: FOOD_LIST_SCHEMA,
+    parse: parseFoodList,
+};
+
+export const NUTRITION_LABEL_FORMAT: ResponseFormat<NutritionLabel> = {
+    name: 'nutrition_label',
+    schema: NUTRITION_LABEL_SCHEMA,
+    parse: parseNutritionLabel,
+};
+
+/**
+ * Follow-up message for the repair retry
+ */
+export function repairInstruction(error: AIResponseError): string {
+    return `Your previous response could not be used: ${error.message}
+Return the corrected response as JSON matching the schema, and nothing else.`;
+}
+
+/**
+ * Parses and validates a macro estimate
+ */
+export function parseMacroEstimate(text: string): MacroEstimate {
+    const parsed = parseValidated<RawMacroEstimate>(text, MACRO_ESTIMATE_SCHEMA);
+    checkEnergyBalance(parsed);
+
+    return {
+        calories: Math.round(parsed.calories),
+        protein: Math.round(parsed.protein * 10) / 10,
+        carbs: Math.round(parsed.carbs * 10) / 10,
+        fat: Math.round(parsed.fat * 10) / 10,
+        confidence: parsed.confidence,
+        meal_description: parsed.meal_description || undefined,
+        items: parseMealItems(parsed.items),
+        nutrients: parseNutrients(parsed.nutrients),
+    };
+}
+
+/**
+ * Parses and validates a food list. Entries without a name or amount are
+ * dropped - the rest of the meal is still usable.
+ */
+export function parseFoodList(text: string): ParsedFood[] {
+    const parsed = parseValidated<RawFoodList>(text, FOOD_LIST_SCHEMA);
+
+    return parsed.foods
+        .filter((item) => item.food.trim() !== '' && item.quantity > 0)
+        .map((item) => ({
+            food: item.food.trim(),
+            quantity: item.quantity,
+            unit: item.unit,
+            preparation: item.preparation || undefined,
+        }));
+}
+
+/**
+ * Parses and validates a label transcription. A label with neither
+ * column comes back as not legible.
+ */
+export function parseNutritionLabel(text: string): NutritionLabel {
+    const parsed = parseValidated<RawNutritionLabel>(text, NUTRITION_LABEL_SCHEMA);
+
+    const labelValues = (raw: RawLabelValues | null | undefined): LabelValues | undefined =>
+        raw
+            ? { calories: raw.calories, protein: raw.protein, carbs: raw.carbs, fat: raw.fat, nutrients: parseNutrients(raw.nutrients) }
+            : undefined;
+
+    const per100g = labelValues(parsed.per_100g);
+    const perServing = labelValues(parsed.per_serving);
+
+    return {
+        product_name: parsed.product_name || undefined,
+        serving_grams: parsed.serving_grams && parsed.serving_grams > 0 ? parsed.serving_grams : undefined,
+        per_100g: per100g,
+        per_serving: perServing,
+        legible: parsed.legible && (per100g !== undefined || perServing !== undefined),
+    };
+}
+
+/**
+ * Checks a value against a schema node. Fields outside `required` may be
+ * missing or null (OpenAI strict mode sends null for them).
+ */
+export function validateSchema(value: unknown, node: SchemaNode, path = '$'): void {
+    if (value === null || value === undefined) {
+        if (node.nullable) {
+            return;
+        }
+        throw new SchemaViolationError(path, 'is required');
+    }
+
+    switch (node.type) {
+        case 'number':
+            if (typeof value !== 'number' || !Number.isFinite(value)) {
+                throw new SchemaViolationError(path, 'must be a number');
+            }
+            if (node.minimum !== undefined && value < node.minimum) {
+                throw new SchemaViolationError(path, `must be at least ${node.minimum}, got ${value}`);
+            }
+            if (node.maximum !== undefined && value > node.maximum) {
+                throw new SchemaViolationError(path, `must be at most ${node.maximum}, got ${value}`);
+            }
+            return;
+
+        case 'string':
+            if (typeof value !== 'string') {
+                throw new SchemaViolationError(path, 'must be a string');
+            }
+            if (node.enum && !node.enum.includes(value)) {
+                throw new SchemaViolationError(path, `must be one of: ${node.enum.join(', ')}`);
+            }
+            return;
+
+        case 'boolean':
+            if (typeof value !== 'boolean') {
+                throw new SchemaViolationError(path, 'must be true or false');
+            }
+            return;
+
+        case 'array':
+            if (!Array.isArray(value)) {
+                throw new SchemaViolationError(path, 'must be an array');
+            }
+            value.forEach((item, index) => validateSchema(item, node.items, `${path}[${index}]`));
+            return;
+
+        case 'object': {
+            if (typeof value !== 'object' || Array.isArray(value)) {
+                throw new SchemaViolationError(path, 'must be an object');
+            }
+            const record = value as Record<string, unknown>;
+            for (const [key, child] of Object.entries(node.properties)) {
+                const optional = !node.required.includes(key);
+                if (optional && (record[key] === undefined || record[key] === null)) {
+                    continue;
+                }
+                validateSchema(record[key], child, `${path}.${key}`);
+            }
+            return;
+        }
+    }
+}
+
+/**
+ * Gemini responseSchema (OpenAPI subset). Field order follows the schema,
+ * so the totals come before the items.
+ */
+export function toGeminiSchema(node: SchemaNode): Record<string, unknown> {
+    const schema: Record<string, unknown> = { type: node.type.toUpperCase() };
+    if (node.nullable) {
+        schema.nullable = true;
+    }
+
+    if (node.type === 'string' && node.enum) {
+        schema.enum = node.enum;
+    } else if (node.type === 'array') {
+        schema.items = toGeminiSchema(node.items);
+    } else if (node.type === 'object') {
+        schema.properties = Object.fromEntries(
+            Object.entries(node.properties).map(([key, child]) => [key, toGeminiSchema(child)])
+        );
+        schema.required = node.required;
+        schema.propertyOrdering = Object.keys(node.properties);
+    }
+
+    return schema;
+}
+
+/**
+ * OpenAI strict json_schema: every property is required and objects are
+ * closed, so optional fields become nullable instead
+ */
+export function toOpenAISchema(node: SchemaNode, optional = false): Record<string, unknown> {
+    const nullable = node.nullable || optional;
+    const schema: Record<string, unknown> = { type: nullable ? [node.type, 'null'] : node.type };
+
+    if (node.type === 'string' && node.enum) {
+        schema.enum = nullable ? [...node.enum, null] : node.enum;
+    } else if (node.type === 'array') {
+        schema.items = toOpenAISchema(node.items);
+    } else if (node.type === 'object') {
+        schema.properties = Object.fromEntries(
+            Object.entries(node.properties).map(([key, child]) => [
+                key,
+                toOpenAISchema(child, !node.required.includes(key)),
+            ])
+        );
+        schema.required = Object.keys(node.properties);
+        schema.additionalProperties = false;
+    }
+
+    return schema;
+}
+
+/**
+ * Parses a response and checks it against the schema. Only a value that
+ * passed validateSchema() is treated as T.
+ */
+function parseValidated<T>(text: string, schema: SchemaNode): T {
+    const parsed = parseJSON(text);
+    validateSchema(parsed, schema);
+    return parsed as T;
+}
+
+function parseJSON(text: string): unknown {
+    try {
+        return JSON.parse(text);
+    } catch {
+        const trimmed = text.trim();
+        throw new MalformedJSONError(
+            trimmed.startsWith('{') && !trimmed.endsWith('}')
+                ? `Response is not valid JSON (appears truncated): ${trimmed.substring(0, 200)}`
+                : `Response is not valid JSON: ${trimmed.substring(0, 200)}`
+        );
+    }
+}
+
+/**
+ * Calories must roughly match 4 kcal/g protein and carbs and 9 kcal/g fat.
+ * The tolerance leaves room for fiber, alcohol and rounding.
+ */
+function checkEnergyBalance(macros: { calories: number; protein: number; carbs: number; fat: number }): void {
+    const fromMacros = 4 * macros.protein + 4 * macros.carbs + 9 * macros.fat;
+    const gap = Math.abs(macros.calories - fromMacros);
+    const allowed = Math.max(
+        CONFIG.ENERGY_BALANCE_MIN_KCAL,
+        CONFIG.ENERGY_BALANCE_TOLERANCE * Math.max(macros.calories, fromMacros)
+    );
+
+    if (gap > allowed) {
+        throw new ImplausibleEstimateError(
+            `calories (${macros.calories}) don't match the macros: 4 × protein + 4 × carbs + 9 × fat = ${Math.round(fromMacros)}`
+        );
+    }
+}
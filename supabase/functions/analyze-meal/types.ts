@@ -1,25 +1,123 @@
 // Type definitions for analyze-meal Edge Function
 
+import { ErrorResponse } from '../_shared/errors.ts';
+
 export interface AnalyzeMealRequest {
     user_id: string;
     image_url?: string; // Optional - not needed for text-only analysis
+    image_urls?: string[]; // Several photos of the same meal (angles, side bowls); normalized from image_url
+    image_base64?: string; // Direct upload instead of a URL (multipart/form-data works too)
+    mime_type?: string;    // Declared type of image_base64 - the real type is sniffed from the bytes
+    store_image?: boolean; // Save uploaded images to Storage and return their paths
+    utc_offset_minutes?: number; // User's timezone offset, defines "today" for the daily budget
     description?: string;
+    ensemble?: boolean; // Run several providers in parallel and reconcile their estimates
+    personalize?: boolean; // false = don't use the user's past meals as examples (default true)
+    mode?: 'label';        // Photo of a nutrition facts label (packaged food) instead of a meal
+    servings?: number;     // Label mode: servings eaten (as defined on the label)
+    grams?: number;        // Label mode: grams (or ml) eaten - instead of servings
+    barcode?: string;      // EAN/UPC of a packaged product (normalized to 8, 13 or 14 digits)
+    async?: boolean;       // Return a job_id right away and analyze in the background
 }
 
 export interface AnalyzeMealResponse {
+    analysis_id?: string;      // Unique per response; pass to the meals endpoint when logging
     calories: number;
     protein: number;
     carbs: number;
     fat: number;
     confidence: 'low' | 'medium' | 'high';
     meal_description?: string;  // AI-generated description of the meal
-    source: 'ai';
-    ai_model_used?: 'gemini' | 'openai';
+    items?: MealItem[];         // Per-dish breakdown (totals match the item sums)
+    nutrients?: Nutrients;      // Fiber, sugar, saturated fat, sodium, iron, calcium (when estimated)
+    source: 'ai' | 'label' | 'barcode';  // 'label'/'barcode' = computed from label data, not estimated
+    ai_model_used?: AIModel;   // Provider name, or e.g. 'gemini+openai' in ensemble mode
+    ensemble?: EnsembleSummary;
+    cached?: boolean;          // True when served from the analysis cache (no AI call, no quota used)
+    image_paths?: string[];    // Storage paths of uploaded images (when store_image is set)
+    daily_budget?: DailyBudget; // How this meal fits the user's day (when they have a profile)
+    personalized?: boolean;    // True when the user's past meals were given to the model as examples
+    label?: LabelSummary;      // Label and barcode modes: the label data and the amount the macros are for
+    warnings?: AnalysisWarning[];  // Plausibility problems found (and possibly fixed) in the estimate
+    budget_level?: 'reduced' | 'minimal';  // Set when a low AI budget limited the analysis
+}
+
+// How close the global or user's monthly AI budget is to its limit (see budget.ts)
+export type BudgetLevel = 'normal' | 'reduced' | 'minimal' | 'exhausted';
+
+export interface AnalysisWarning {
+    code: 'calories_adjusted' | 'item_adjusted' | 'item_out_of_range' | 'large_meal';
+    message: string;  // Shown to the user as is
+    item?: string;    // Item name, for item warnings
+}
+
+export interface LabelSummary {
+    product_name?: string;
+    serving_grams?: number;   // Serving size printed on the label
+    servings?: number;        // Amount eaten, as sent in the request
+    grams?: number;
+    basis: 'per_100g' | 'per_serving';  // Label column the macros were computed from
+    barcode?: string;         // Barcode mode only
+    catalog?: string;         // Barcode mode: catalog the product came from
 }
 
-export interface ErrorResponse {
-    error: string;
-    details?: string;
+export type JobStatus = 'queued' | 'running' | 'succeeded' | 'failed';
+
+// What a background analysis is doing right now
+export type JobStage = 'queued' | 'fetching_images' | 'analyzing' | 'fallback' | 'finishing' | 'done';
+
+export interface JobProgress {
+    stage: JobStage;
+    provider?: AIModel;  // Provider being called in the analyzing/fallback stages
+}
+
+// Called as the analysis moves through its stages (async jobs only)
+export type ProgressReporter = (progress: JobProgress) => void;
+
+// 202 response to an async request
+export interface JobAcceptedResponse {
+    job_id: string;
+    status: 'queued';
+}
+
+/**
+ * Status of an async analysis, as returned by GET /analyze-meal/jobs/:id
+ */
+export interface AnalysisJob {
+    job_id: string;
+    status: JobStatus;
+    stage: JobStage;
+    provider: AIModel | null;
+    result: AnalyzeMealResponse | null;  // When succeeded
+    error: ErrorResponse | null;         // When failed
+    http_status: number | null;          // Status the synchronous request would have returned
+    created_at: string;
+    updated_at: string;
+}
+
+export interface DailyBudget {
+    goal_mode: GoalMode;
+    calorie_target: number;
+    // What's left for the day after this meal (negative = over target)
+    remaining_calories: number;
+    remaining_protein: number;
+    remaining_carbs: number;
+    remaining_fat: number;
+    note: string;  // Short goal-aware comment, e.g. "Low protein for a cut day"
+}
+
+export interface EnsembleSummary {
+    models: AIModel[];    // Providers whose estimates were combined
+    disagreement: number; // Largest relative spread across macros (0 = full agreement)
+}
+
+// Quota is counted per analysis kind; label photos count as image
+export type QuotaMode = 'image' | 'text';
+
+export interface QuotaWindow {
+    window: 'daily' | 'image_daily' | 'text_daily' | 'monthly';
+    limit: number;
+    used: number;  // Includes the current reservation when it was allowed
 }
 
 export interface MacroEstimate {
@@ -29,9 +127,202 @@ export interface MacroEstimate {
     fat: number;
     confidence: 'low' | 'medium' | 'high';
     meal_description?: string;  // Brief 1-2 line description of food items
+    items?: MealItem[];         // Per-dish breakdown, when the model provides one
+    nutrients?: Nutrients;
+}
+
+// Optional nutrients beyond the macros, for the whole meal
+export interface Nutrients {
+    fiber?: number;          // g
+    sugar?: number;          // g
+    saturated_fat?: number;  // g
+    sodium?: number;         // mg
+    iron?: number;           // mg
+    calcium?: number;        // mg
+}
+
+export interface MealItem {
+    name: string;
+    portion_grams?: number;   // Estimated weight of the item
+    portion_pieces?: number;  // Count for countable items (roti, idli, eggs)
+    calories: number;
+    protein: number;
+    carbs: number;
+    fat: number;
+}
+
+// Name of a registered AI provider (e.g. 'gemini', 'openai')
+export type AIModel = string;
+
+export type AnalysisMode = 'image' | 'text' | 'label';
+
+export interface AnalysisInput {
+    mode: AnalysisMode;
+    images?: AnalysisImage[];  // Photos of the same meal
+    description?: string;
+    personalContext?: string;  // Prompt block with the user's own past meals (see personalization.ts)
+    providers?: AIModel[];     // Used instead of the configured chain when the budget runs low (see budget.ts)
+}
+
+export interface AnalysisImage {
+    data: string;       // Base64 image bytes (fetched or uploaded once up front)
+    mime_type: string;
+    url?: string;       // Public URL, when the image came from one
+}
+
+export interface AIProvider {
+    name: AIModel;
+    model: string;                      // API model id, for comparing prices
+    modes: AnalysisMode[];              // Modes this provider can handle
+    isConfigured(): boolean;            // e.g. API key present
+    analyze(input: AnalysisInput): Promise<ProviderResult>;
+    parseFoods?(description: string): Promise<FoodParseResult>;  // Text → food list, no nutrition (food-grounding.ts)
+    readLabel?(images: AnalysisImage[]): Promise<LabelReadResult>;  // Nutrition label → table (nutrition-label.ts)
+}
+
+export interface TokenUsage {
+    model: string;          // API model id, e.g. 'gemini-2.5-flash'
+    input_tokens: number;
+    output_tokens: number;  // Includes Gemini thinking tokens (billed as output)
+}
+
+export interface ProviderResult {
+    macros: MacroEstimate;
+    usage: TokenUsage;
+}
+
+// One food as written by the user, before any nutrition is looked up
+export interface ParsedFood {
+    food: string;
+    quantity: number;
+    unit: string;          // g, ml, katori, tbsp, piece, ... (normalized in units.ts)
+    preparation?: string;  // e.g. "fried", "with ghee"
+}
+
+export interface FoodParseResult {
+    foods: ParsedFood[];
+    usage: TokenUsage;
 }
 
-export type AIModel = 'gemini' | 'openai';
+// One column of a nutrition facts label
+export interface LabelValues {
+    calories: number;
+    protein: number;
+    carbs: number;
+    fat: number;
+    nutrients?: Nutrients;
+}
+
+// A nutrition facts label as transcribed by the model (no estimation)
+export interface NutritionLabel {
+    product_name?: string;
+    serving_grams?: number;     // Serving size in g (or ml for drinks)
+    per_100g?: LabelValues;     // "Per 100g" / "per 100ml" column
+    per_serving?: LabelValues;  // "Per serving" column
+    legible: boolean;           // False when no nutrition table could be read
+}
+
+// The label columns macros can be computed from (a read label or a catalog product)
+export type LabelData = Pick<NutritionLabel, 'product_name' | 'serving_grams' | 'per_100g' | 'per_serving'>;
+
+/**
+ * A packaged product from a catalog, keyed by barcode
+ */
+export interface Product extends LabelData {
+    barcode: string;
+    source: string;  // Catalog the data came from, e.g. 'products' or 'openfoodfacts'
+}
+
+export interface ProductCatalog {
+    name: string;
+    isConfigured(): boolean;
+    lookup(barcode: string): Promise<Product | null>;  // null = not in this catalog
+}
+
+export interface LabelReadResult {
+    label: NutritionLabel;
+    usage: TokenUsage;
+}
+
+// A row of the bundled food composition table. Nutrients are per 100g as eaten
+export interface FoodEntry {
+    name: string;
+    aliases: string[];     // Lowercase names users write, incl. regional ones
+    calories: number;
+    protein: number;
+    carbs: number;
+    fat: number;
+    nutrients?: Nutrients; // Per 100g
+    density?: number;      // g per ml, for katori/cup/tbsp amounts (default 1)
+    piece_grams?: number;  // Weight of one piece, for countable foods
+}
+
+// One billed (or attempted) model call made while serving a request
+export interface ModelCall {
+    provider: AIModel;
+    model?: string;
+    input_tokens: number;
+    output_tokens: number;
+    cost_inr: number;
+    outcome: 'used' | 'discarded' | 'failed';  // discarded = replaced by a fallback result
+    latency_ms: number;
+    fallback: boolean;  // Made after an earlier provider failed or was unsure
+}
+
+export type GoalMode = 'cut' | 'maintain' | 'gain';
+
+// Subset of the user_settings row used for personalization
+export interface UserSettings {
+    maintenance_calories: number;
+    protein_target: number;
+    carbs_target: number;
+    fat_target: number;
+    goal_mode: GoalMode;
+    weight_kg?: number;
+    activity_level?: string;
+    personalize_estimates?: boolean;  // Opt-out of personal few-shot examples
+}
+
+/**
+ * A meal the user logged - confirmed as analyzed, or with macros they corrected
+ */
+export interface PersonalMeal {
+    description: string | null;
+    meal_description: string | null;
+    calories: number;
+    protein: number;
+    carbs: number;
+    fat: number;
+    user_edited: boolean;
+    created_at: string;
+}
+
+export interface MacroTotals {
+    calories: number;
+    protein: number;
+    carbs: number;
+    fat: number;
+}
+
+/**
+ * What an analysis returned, kept so user corrections can be measured against it
+ */
+export interface MealAnalysisRecord {
+    id: string;  // The analysis_id returned to the client
+    user_id: string;
+    mode: AnalysisMode | 'barcode';
+    calories: number;
+    protein: number;
+    carbs: number;
+    fat: number;
+    confidence: 'low' | 'medium' | 'high';
+    items: MealItem[] | null;
+    ai_model: AIModel | null;
+    prompt_version: string;
+    image_hash: string | null;
+    description: string | null;
+    cached: boolean;
+}
 
 export interface AIUsageRecord {
     user_id: string;
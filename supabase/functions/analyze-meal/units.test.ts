@@ -0,0 +1,43 @@
+// Tests for household unit conversions
+
+import { assertEquals } from 'https://deno.land/std@0.168.0/testing/asserts.ts';
+import { normalizeUnit, toGrams } from './units.ts';
+import { FoodEntry } from './types.ts';
+
+const DAL: FoodEntry = { name: 'Dal', aliases: ['dal'], calories: 110, protein: 6.5, carbs: 16, fat: 2.5 };
+const RICE: FoodEntry = { ...DAL, name: 'Rice', aliases: ['rice'], density: 0.7 };
+const ROTI: FoodEntry = { ...DAL, name: 'Roti', aliases: ['roti'], piece_grams: 35 };
+
+Deno.test('normalizeUnit maps written units to canonical ones', () => {
+    const cases: [string, string][] = [
+        ['Grams', 'g'],
+        ['gms', 'g'],
+        ['Tablespoons', 'tbsp'],
+        ['tbsp.', 'tbsp'],
+        ['vati', 'katori'],
+        ['pcs', 'piece'],
+        ['slices', 'piece'],
+        ['plate', 'plate'],
+    ];
+    for (const [unit, expected] of cases) {
+        assertEquals(normalizeUnit(unit), expected, unit);
+    }
+});
+
+Deno.test('toGrams converts mass, volume and pieces', () => {
+    const cases: [number, string, FoodEntry, number | null][] = [
+        [250, 'g', DAL, 250],
+        [0.5, 'kg', DAL, 500],
+        [1, 'katori', DAL, 150],           // No density: 1 g/ml
+        [1, 'katori', RICE, 105],          // 150 ml × 0.7
+        [2, 'tbsp', RICE, 21],
+        [1, 'glass', DAL, 250],
+        [3, 'pieces', ROTI, 105],
+        [2, 'pieces', DAL, null],          // Dal has no piece weight
+        [1, 'plate', ROTI, null],
+    ];
+    for (const [quantity, unit, food, expected] of cases) {
+        const grams = toGrams(quantity, unit, food);
+        assertEquals(grams === null ? null : Math.round(grams * 100) / 100, expected, `${quantity} ${unit} ${food.name}`);
+    }
+});
@@ -0,0 +1,66 @@
+// Household unit conversions for food grounding
+// Indian home measures are volumes (a katori of dal, a tbsp of ghee), so they
+// go through the food's density; pieces use the food's own piece weight.
+
+import { FoodEntry } from './types.ts';
+
+// Canonical unit → millilitres (volume) or grams (mass)
+const VOLUME_ML: Record<string, number> = {
+    ml: 1,
+    l: 1000,
+    tsp: 5,
+    tbsp: 15,
+    katori: 150,  // Standard steel katori / vati
+    cup: 240,
+    glass: 250,
+    bowl: 250,
+};
+
+const MASS_G: Record<string, number> = {
+    g: 1,
+    kg: 1000,
+};
+
+const UNIT_ALIASES: Record<string, string> = {
+    gram: 'g', grams: 'g', gm: 'g', gms: 'g', gr: 'g',
+    kilogram: 'kg', kilograms: 'kg', kgs: 'kg',
+    millilitre: 'ml', milliliter: 'ml', millilitres: 'ml', milliliters: 'ml',
+    litre: 'l', liter: 'l', litres: 'l', liters: 'l', ltr: 'l',
+    teaspoon: 'tsp', teaspoons: 'tsp', tsps: 'tsp',
+    tablespoon: 'tbsp', tablespoons: 'tbsp', tbsps: 'tbsp', tbs: 'tbsp', spoon: 'tbsp', spoons: 'tbsp',
+    katoris: 'katori', vati: 'katori', vatis: 'katori', wati: 'katori',
+    cups: 'cup',
+    glasses: 'glass',
+    bowls: 'bowl',
+    pieces: 'piece', pc: 'piece', pcs: 'piece', nos: 'piece', no: 'piece', whole: 'piece', slice: 'piece', slices: 'piece',
+};
+
+/**
+ * Maps a unit as written ("Tablespoons", "vati", "pcs") to its canonical name
+ */
+export function normalizeUnit(unit: string): string {
+    const cleaned = unit.trim().toLowerCase().replace(/\.$/, '');
+    return UNIT_ALIASES[cleaned] ?? cleaned;
+}
+
+/**
+ * Grams of `food` in `quantity` `unit`, or null when the unit can't be
+ * converted for this food (e.g. "pieces" of dal, or "plate")
+ */
+export function toGrams(quantity: number, unit: string, food: FoodEntry): number | null {
+    const canonical = normalizeUnit(unit);
+
+    if (canonical in MASS_G) {
+        return quantity * MASS_G[canonical];
+    }
+
+    if (canonical in VOLUME_ML) {
+        return quantity * VOLUME_ML[canonical] * (food.density ?? 1);
+    }
+
+    if (canonical === 'piece' && food.piece_grams) {
+        return quantity * food.piece_grams;
+    }
+
+    return null;
+}
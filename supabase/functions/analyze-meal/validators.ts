@@ -1,18 +1,163 @@
 // Input validation utilities
 
+import { decode as decodeBase64 } from 'https://deno.land/std@0.168.0/encoding/base64.ts';
 import { AnalyzeMealRequest } from './types.ts';
+import { CONFIG } from './config.ts';
+import { detectImageMime } from './image-utils.ts';
+import { ApiError } from '../_shared/errors.ts';
+import { log } from '../_shared/logger.ts';
 
-export class ValidationError extends Error {
-    constructor(message: string) {
-        super(message);
+/**
+ * Invalid input (INVALID_INPUT), optionally naming the request field
+ */
+export class ValidationError extends ApiError {
+    constructor(message: string, field?: string) {
+        super('INVALID_INPUT', message, field);
         this.name = 'ValidationError';
     }
 }
 
+const UUID_REGEX = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// Multipart fields that hold numbers (everything arrives as a string)
+const NUMERIC_FORM_FIELDS = ['servings', 'grams', 'utc_offset_minutes'];
+
+export interface RequestBody {
+    body: unknown;
+    uploads: Uint8Array[];  // Raw bytes of directly uploaded images
+}
+
+/**
+ * Reads a JSON or multipart/form-data request.
+ * Multipart: text fields become the body, every `image` file part is an upload.
+ * Both: an `image_base64` field is decoded into an upload.
+ */
+export async function readRequestBody(req: Request): Promise<RequestBody> {
+    const contentType = req.headers.get('content-type') ?? '';
+    const raw = await readBodyBytes(req);
+
+    if (contentType.startsWith('multipart/form-data')) {
+        let form: FormData;
+        try {
+            form = await new Response(raw, { headers: { 'content-type': contentType } }).formData();
+        } catch {
+            throw new ValidationError('Request body must be valid multipart/form-data');
+        }
+        const body: Record<string, unknown> = {};
+        const uploads: Uint8Array[] = [];
+
+        for (const [key, value] of form.entries()) {
+            if (typeof value === 'string' && key === 'image_base64') {
+                uploads.push(decodeImageBase64(value));
+            } else if (typeof value === 'string' && NUMERIC_FORM_FIELDS.includes(key) && value.trim() !== '') {
+                body[key] = Number(value);
+            } else if (typeof value === 'string') {
+                // Form fields are strings - restore the booleans
+                body[key] = value === 'true' ? true : value === 'false' ? false : value;
+            } else if (key === 'image') {
+                uploads.push(new Uint8Array(await value.arrayBuffer()));
+            } else {
+                throw new ValidationError(`Unexpected file field: ${key}`, key);
+            }
+        }
+
+        return { body, uploads };
+    }
+
+    let body;
+    try {
+        body = JSON.parse(new TextDecoder().decode(raw));
+    } catch {
+        throw new ValidationError('Request body must be valid JSON');
+    }
+    if (body && typeof body === 'object' && typeof body.image_base64 === 'string') {
+        return { body, uploads: [decodeImageBase64(body.image_base64)] };
+    }
+
+    return { body, uploads: [] };
+}
+
+/**
+ * Reads the whole body, refusing it once it passes MAX_REQUEST_BYTES.
+ * Counts the bytes actually read - Content-Length is missing on chunked
+ * requests and is only used to refuse early.
+ */
+async function readBodyBytes(req: Request): Promise<ArrayBuffer> {
+    const tooLarge = () =>
+        new ValidationError(`Request body must be at most ${Math.floor(CONFIG.MAX_REQUEST_BYTES / (1024 * 1024))} MB`);
+
+    if (Number(req.headers.get('content-length')) > CONFIG.MAX_REQUEST_BYTES) {
+        throw tooLarge();
+    }
+    if (!req.body) {
+        return new ArrayBuffer(0);
+    }
+
+    const chunks: Uint8Array[] = [];
+    let total = 0;
+    const reader = req.body.getReader();
+    while (true) {
+        const { done, value } = await reader.read();
+        if (done) {
+            break;
+        }
+        total += value.length;
+        if (total > CONFIG.MAX_REQUEST_BYTES) {
+            await reader.cancel();
+            throw tooLarge();
+        }
+        chunks.push(value);
+    }
+
+    const body = new ArrayBuffer(total);
+    const bytes = new Uint8Array(body);
+    let offset = 0;
+    for (const chunk of chunks) {
+        bytes.set(chunk, offset);
+        offset += chunk.length;
+    }
+    return body;
+}
+
+function decodeImageBase64(value: string): Uint8Array {
+    try {
+        // Tolerate data URLs ("data:image/jpeg;base64,...")
+        return decodeBase64(value.replace(/^data:[^,]*,/, ''));
+    } catch {
+        throw new ValidationError('image_base64 must be valid base64', 'image_base64');
+    }
+}
+
+/**
+ * Validates an uploaded image by sniffing its magic bytes.
+ * Returns the detected MIME type - the client's declared type is not trusted.
+ */
+export function validateImageBytes(bytes: Uint8Array, declaredMime?: string, field = 'image'): string {
+    if (bytes.length === 0) {
+        throw new ValidationError('Image is empty', field);
+    }
+
+    if (bytes.length > CONFIG.MAX_UPLOAD_BYTES) {
+        throw new ValidationError(`Image exceeds ${CONFIG.MAX_UPLOAD_BYTES / (1024 * 1024)}MB`, field);
+    }
+
+    const mime = detectImageMime(bytes);
+    if (!mime || !CONFIG.ALLOWED_IMAGE_TYPES.includes(mime)) {
+        throw new ValidationError(`Unsupported image format. Allowed: ${CONFIG.ALLOWED_IMAGE_TYPES.join(', ')}`, field);
+    }
+
+    if (declaredMime && declaredMime !== mime) {
+        log.warn('Declared mime_type does not match the image, using detected type', { declared: declaredMime, detected: mime });
+    }
+
+    return mime;
+}
+
 /**
  * Validates the request payload
+ * `uploadCount` is the number of images uploaded directly (multipart or image_base64)
  */
-export function validateRequest(data: unknown): AnalyzeMealRequest {
+export function validateRequest(data: unknown, uploadCount = 0): AnalyzeMealRequest {
     if (!data || typeof data !== 'object') {
         throw new ValidationError('Request body must be a JSON object');
     }
@@ -21,48 +166,207 @@ export function validateRequest(data: unknown): AnalyzeMealRequest {
 
     // Validate user_id
     if (!req.user_id || typeof req.user_id !== 'string') {
-        throw new ValidationError('user_id is required and must be a string');
+        throw new ValidationError('user_id is required and must be a string', 'user_id');
     }
 
     // UUID format validation
-    const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
-    if (!uuidRegex.test(req.user_id)) {
-        throw new ValidationError('user_id must be a valid UUID');
+    if (!UUID_REGEX.test(req.user_id)) {
+        throw new ValidationError('user_id must be a valid UUID', 'user_id');
     }
 
     // Validate image_url (optional - required if no description)
     if (req.image_url !== undefined && typeof req.image_url !== 'string') {
-        throw new ValidationError('image_url must be a string if provided');
+        throw new ValidationError('image_url must be a string if provided', 'image_url');
+    }
+
+    // Validate image_urls (optional - several photos of the same meal)
+    if (req.image_urls !== undefined) {
+        if (req.image_url !== undefined) {
+            throw new ValidationError('Provide either image_url or image_urls, not both', 'image_urls');
+        }
+        if (!Array.isArray(req.image_urls) || req.image_urls.length === 0) {
+            throw new ValidationError('image_urls must be a non-empty array if provided', 'image_urls');
+        }
+        if (req.image_urls.length > CONFIG.MAX_IMAGES_PER_REQUEST) {
+            throw new ValidationError(`image_urls can contain at most ${CONFIG.MAX_IMAGES_PER_REQUEST} images`, 'image_urls');
+        }
     }
 
-    if (req.image_url && !isValidUrl(req.image_url)) {
-        throw new ValidationError('image_url must be a valid HTTP/HTTPS URL');
+    // Single image_url is shorthand for a one-element image_urls
+    const imageUrls: unknown[] = req.image_urls !== undefined
+        ? req.image_urls as unknown[]
+        : req.image_url ? [req.image_url] : [];
+
+    if (imageUrls.length + uploadCount > CONFIG.MAX_IMAGES_PER_REQUEST) {
+        throw new ValidationError(`A request can contain at most ${CONFIG.MAX_IMAGES_PER_REQUEST} images`);
+    }
+
+    // Validate direct upload fields (optional)
+    if (req.image_base64 !== undefined && typeof req.image_base64 !== 'string') {
+        throw new ValidationError('image_base64 must be a base64 string if provided', 'image_base64');
+    }
+
+    if (req.mime_type !== undefined && typeof req.mime_type !== 'string') {
+        throw new ValidationError('mime_type must be a string if provided', 'mime_type');
+    }
+
+    if (req.store_image !== undefined && typeof req.store_image !== 'boolean') {
+        throw new ValidationError('store_image must be a boolean if provided', 'store_image');
     }
 
+    // Validate timezone offset (optional)
+    if (req.utc_offset_minutes !== undefined) {
+        if (
+            typeof req.utc_offset_minutes !== 'number' ||
+            !Number.isInteger(req.utc_offset_minutes) ||
+            req.utc_offset_minutes < -720 ||
+            req.utc_offset_minutes > 840
+        ) {
+            throw new ValidationError('utc_offset_minutes must be an integer between -720 and 840', 'utc_offset_minutes');
+        }
+    }
+
+    imageUrls.forEach((url, index) => {
+        const field = req.image_urls !== undefined ? `image_urls[${index}]` : 'image_url';
+        if (typeof url !== 'string' || !isValidUrl(url)) {
+            throw new ValidationError(`${field} must be a valid HTTP/HTTPS URL`, field);
+        }
+    });
+
     // Validate description (optional - required if no image_url)
     if (req.description !== undefined && typeof req.description !== 'string') {
-        throw new ValidationError('description must be a string if provided');
+        throw new ValidationError('description must be a string if provided', 'description');
     }
 
-    // At least one of image_url or description must be provided
-    if (!req.image_url && !req.description) {
-        throw new ValidationError('Either image_url or description must be provided');
+    // Validate ensemble flag (optional)
+    if (req.ensemble !== undefined && typeof req.ensemble !== 'boolean') {
+        throw new ValidationError('ensemble must be a boolean if provided', 'ensemble');
+    }
+
+    // Validate async flag (optional)
+    if (req.async !== undefined && typeof req.async !== 'boolean') {
+        throw new ValidationError('async must be a boolean if provided', 'async');
+    }
+
+    // Validate personalization opt-out (optional)
+    if (req.personalize !== undefined && typeof req.personalize !== 'boolean') {
+        throw new ValidationError('personalize must be a boolean if provided', 'personalize');
+    }
+
+    const hasImages = imageUrls.length + uploadCount > 0;
+
+    // Validate label mode (optional) - a photo of a nutrition facts label
+    if (req.mode !== undefined && req.mode !== 'label') {
+        throw new ValidationError("mode must be 'label' if provided", 'mode');
+    }
+
+    if (req.mode === 'label' && !hasImages) {
+        throw new ValidationError('Label mode needs a photo of the nutrition label', 'mode');
+    }
+
+    // Validate barcode (optional) - photos sent along are the label, read if the barcode is unknown
+    const barcode = req.barcode !== undefined ? normalizeBarcode(req.barcode) : undefined;
+
+    if (req.mode === 'label' || barcode) {
+        if (req.ensemble) {
+            throw new ValidationError('ensemble is not supported for labels and barcodes', 'ensemble');
+        }
+        if ((req.servings === undefined) === (req.grams === undefined)) {
+            throw new ValidationError('Labels and barcodes need either servings or grams (the amount eaten)');
+        }
+        validateAmount(req, 'servings', CONFIG.MAX_LABEL_SERVINGS);
+        validateAmount(req, 'grams', CONFIG.MAX_LABEL_GRAMS);
+    } else if (req.servings !== undefined || req.grams !== undefined) {
+        throw new ValidationError("servings and grams are only used with mode 'label' or a barcode", req.servings !== undefined ? 'servings' : 'grams');
+    }
+
+    // At least one image, a description or a barcode must be provided
+    if (!hasImages && !req.description && !barcode) {
+        throw new ValidationError('Either an image (image_url, image_urls, upload), description or barcode must be provided');
     }
 
     // If using text-only mode, description must be meaningful
-    if (!req.image_url && req.description) {
-        if (req.description.trim().length < 10) {
-            throw new ValidationError('Description must be at least 10 characters for text-only analysis');
+    if (!hasImages && !barcode && req.description) {
+        // Text macros come from the food table - an ensemble would bring back free LLM estimates
+        if (req.ensemble) {
+            throw new ValidationError('ensemble is only supported for meal photos', 'ensemble');
+        }
+        if (req.description.trim().length < CONFIG.MIN_TEXT_DESCRIPTION_LENGTH) {
+            throw new ValidationError(
+                `Description must be at least ${CONFIG.MIN_TEXT_DESCRIPTION_LENGTH} characters for text-only analysis`,
+                'description'
+            );
         }
     }
 
     return {
         user_id: req.user_id,
-        image_url: req.image_url as string | undefined,
+        image_urls: imageUrls as string[],
         description: req.description as string | undefined,
+        ensemble: req.ensemble as boolean | undefined,
+        personalize: req.personalize as boolean | undefined,
+        mode: req.mode as AnalyzeMealRequest['mode'],
+        servings: req.servings as number | undefined,
+        grams: req.grams as number | undefined,
+        barcode,
+        async: req.async as boolean | undefined,
+        mime_type: req.mime_type as string | undefined,
+        store_image: req.store_image as boolean | undefined,
+        utc_offset_minutes: req.utc_offset_minutes as number | undefined,
     };
 }
 
+/**
+ * Validates a job id taken from the URL
+ */
+export function validateJobId(id: string): string {
+    if (!UUID_REGEX.test(id)) {
+        throw new ValidationError('Job id must be a valid UUID');
+    }
+    return id;
+}
+
+/**
+ * Validates an EAN-8, UPC-A, EAN-13 or GTIN-14 barcode by its check digit.
+ * UPC-A is the EAN-13 code with a leading zero, so it is stored as that.
+ */
+function normalizeBarcode(value: unknown): string {
+    // Numbers would lose leading zeros
+    if (typeof value !== 'string') {
+        throw new ValidationError('barcode must be a string of digits if provided', 'barcode');
+    }
+
+    const digits = value.replace(/[\s-]/g, '');
+    if (!/^(\d{8}|\d{12}|\d{13}|\d{14})$/.test(digits)) {
+        throw new ValidationError('barcode must be an EAN-8, UPC-A, EAN-13 or GTIN-14 code', 'barcode');
+    }
+
+    // GTIN check digit: weights 3 and 1 alternate from the rightmost data digit
+    const sum = digits
+        .slice(0, -1)
+        .split('')
+        .reverse()
+        .reduce((total, digit, i) => total + Number(digit) * (i % 2 === 0 ? 3 : 1), 0);
+    if ((10 - (sum % 10)) % 10 !== Number(digits[digits.length - 1])) {
+        throw new ValidationError('barcode check digit is invalid', 'barcode');
+    }
+
+    return digits.length === 12 ? `0${digits}` : digits;
+}
+
+/**
+ * Validates an optional positive amount (label mode servings/grams)
+ */
+function validateAmount(req: Record<string, unknown>, field: 'servings' | 'grams', max: number): void {
+    const value = req[field];
+    if (value === undefined) {
+        return;
+    }
+    if (typeof value !== 'number' || !Number.isFinite(value) || value <= 0 || value > max) {
+        throw new ValidationError(`${field} must be a number greater than 0 and at most ${max}`, field);
+    }
+}
+
 /**
  * Validates URL format
  */
@@ -76,24 +380,25 @@ function isValidUrl(url: string): boolean {
 }
 
 /**
- * Validates image URL accessibility (basic check)
+ * Validates image URL accessibility (basic check). `field` names the URL in
+ * the request, e.g. image_urls[1].
  */
-export async function validateImageUrl(url: string): Promise<void> {
+export async function validateImageUrl(url: string, field: string): Promise<void> {
+    let response: Response;
     try {
-        const response = await fetch(url, { method: 'HEAD', signal: AbortSignal.timeout(5000) });
+        response = await fetch(url, { method: 'HEAD', signal: AbortSignal.timeout(5000) });
+    } catch (error) {
+        // Network details stay in the logs
+        log.warn('Image URL not reachable', { field, error });
+        throw new ApiError('IMAGE_UNREACHABLE', 'Image URL could not be reached', field);
+    }
 
-        if (!response.ok) {
-            throw new ValidationError(`Image URL returned status ${response.status}`);
-        }
+    if (!response.ok) {
+        throw new ApiError('IMAGE_UNREACHABLE', `Image URL returned status ${response.status}`, field);
+    }
 
-        const contentType = response.headers.get('content-type');
-        if (contentType && !contentType.startsWith('image/')) {
-            throw new ValidationError('URL does not point to an image');
-        }
-    } catch (error) {
-        if (error instanceof ValidationError) {
-            throw error;
-        }
-        throw new ValidationError(`Failed to access image URL: ${error.message}`);
+    const contentType = response.headers.get('content-type');
+    if (contentType && !contentType.startsWith('image/')) {
+        throw new ValidationError('URL does not point to an image', field);
     }
 }
@@ -0,0 +1,7 @@
+// Configuration constants for the meal corrections API
+
+export const CONFIG = {
+    // Upper bounds that catch typos (an extra zero), not real meals
+    MAX_CALORIES: 10000,
+    MAX_MACRO_GRAMS: 1000,
+} as const;
@@ -0,0 +1,46 @@
+// Database helper functions for analysis corrections
+
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.39.3';
+import { AccuracyReportRow, Correction, CorrectionRequest } from './types.ts';
+
+const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+
+/**
+ * Record the user's correction of one of their analyses (replaces an earlier one).
+ * Returns null when the analysis is unknown or belongs to someone else.
+ */
+export async function recordCorrection(userId: string, correction: CorrectionRequest): Promise<Correction | null> {
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    const { data, error } = await supabase
+        .rpc('record_analysis_correction', {
+            p_user_id: userId,
+            p_analysis_id: correction.analysis_id,
+            p_calories: correction.calories,
+            p_protein: correction.protein,
+            p_carbs: correction.carbs,
+            p_fat: correction.fat,
+        })
+        .maybeSingle();
+
+    if (error) throw error;
+
+    // A NULL composite comes back as an object of nulls
+    const row = data as Correction | null;
+    return row?.id ? row : null;
+}
+
+/**
+ * Per-model, per-confidence error of corrected analyses
+ */
+export async function getAccuracyReport(since: Date | null): Promise<AccuracyReportRow[]> {
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    const { data, error } = await supabase
+        .rpc('analysis_accuracy_report', { p_since: since?.toISOString() ?? null });
+
+    if (error) throw error;
+
+    return (data ?? []) as AccuracyReportRow[];
+}
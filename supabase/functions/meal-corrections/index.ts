@@ -0,0 +1,119 @@
+// Supabase Edge Function: Meal Corrections
+// Collects user corrections of AI estimates and reports per-model accuracy
+//
+//   POST /meal-corrections                       correct an analysis (user JWT)
+//   GET  /meal-corrections/report?since=YYYY-MM-DD   MAE/bias per model and confidence (service role key)
+
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.39.3';
+import { ValidationError, validateCorrection, validateSince } from './validators.ts';
+import { recordCorrection, getAccuracyReport } from './database.ts';
+import { AccuracyReport, Correction } from './types.ts';
+import { isServiceRoleKey } from '../_shared/auth.ts';
+import { errorResponse, jsonError } from '../_shared/errors.ts';
+import { log, setLogUser, withRequestLog } from '../_shared/logger.ts';
+
+serve((req) => {
+    // Handle CORS preflight
+    if (req.method === 'OPTIONS') {
+        return new Response(null, {
+            headers: {
+                'Access-Control-Allow-Origin': '*',
+                'Access-Control-Allow-Methods': 'GET, POST',
+                'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, x-request-id',
+            },
+        });
+    }
+
+    // Every log line of the request carries its id, and so does the response
+    return withRequestLog(req, () => handleRequest(req));
+});
+
+/**
+ * Records a user's correction, or returns the accuracy report
+ */
+async function handleRequest(req: Request): Promise<Response> {
+    try {
+        const authHeader = req.headers.get('Authorization');
+        if (!authHeader) {
+            log.warn('Missing authorization header');
+            return jsonError('UNAUTHORIZED', 'Missing authorization header');
+        }
+
+        const token = authHeader.replace('Bearer ', '');
+        const url = new URL(req.url);
+
+        // The report covers every user's data - service role key only
+        if (req.method === 'GET' && url.pathname.endsWith('/report')) {
+            if (!(await isServiceRoleKey(token))) {
+                log.warn('Accuracy report requested without the service role key');
+                return jsonError('FORBIDDEN');
+            }
+
+            const since = validateSince(url.searchParams.get('since'));
+            const report: AccuracyReport = {
+                since: since?.toISOString() ?? null,
+                rows: await getAccuracyReport(since),
+            };
+            return jsonResponse(report);
+        }
+
+        if (req.method !== 'POST') {
+            return jsonError('METHOD_NOT_ALLOWED');
+        }
+
+        const supabaseClient = createClient(
+            Deno.env.get('SUPABASE_URL') ?? '',
+            Deno.env.get('SUPABASE_ANON_KEY') ?? '',
+            {
+                global: {
+                    headers: { Authorization: authHeader },
+                },
+            }
+        );
+
+        const {
+            data: { user },
+            error: authError,
+        } = await supabaseClient.auth.getUser(token);
+
+        if (authError || !user) {
+            log.warn('Auth error', { error: authError ?? undefined });
+            return jsonError('UNAUTHORIZED', 'Invalid or expired token');
+        }
+
+        await setLogUser(user.id);
+
+        let body: unknown;
+        try {
+            body = await req.json();
+        } catch {
+            throw new ValidationError('Request body must be valid JSON');
+        }
+
+        const correction = await recordCorrection(user.id, validateCorrection(body));
+        if (!correction) {
+            return jsonError('NOT_FOUND', 'Analysis not found', { field: 'analysis_id' });
+        }
+
+        log.info('Correction recorded', { analysis_id: correction.analysis_id });
+        return jsonResponse(correction, 201);
+
+    } catch (error) {
+        log.error('Error processing request', { error });
+        return errorResponse(error);
+    }
+}
+
+/**
+ * Helper to return JSON response
+ */
+function jsonResponse(data: Correction | AccuracyReport, status = 200): Response {
+    return new Response(JSON.stringify(data), {
+        status,
+        headers: {
+            'Content-Type': 'application/json',
+            'Access-Control-Allow-Origin': '*',
+        },
+    });
+}
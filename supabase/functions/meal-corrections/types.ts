@@ -0,0 +1,54 @@
+// Type definitions for the meal corrections API
+
+export interface CorrectionRequest {
+    analysis_id: string;  // From the analyze-meal response
+    calories: number;     // What the meal really was, per the user
+    protein: number;
+    carbs: number;
+    fat: number;
+}
+
+/**
+ * A row of analysis_corrections
+ */
+export interface Correction {
+    id: string;
+    analysis_id: string;
+    original_calories: number;
+    original_protein: number;
+    original_carbs: number;
+    original_fat: number;
+    original_confidence: 'low' | 'medium' | 'high';
+    corrected_calories: number;
+    corrected_protein: number;
+    corrected_carbs: number;
+    corrected_fat: number;
+    ai_model: string | null;
+    prompt_version: string;
+    created_at: string;
+    updated_at: string;
+}
+
+/**
+ * One group of the accuracy report. Bias is estimate - corrected,
+ * so a positive value means the model overestimates.
+ */
+export interface AccuracyReportRow {
+    ai_model: string | null;
+    confidence: 'low' | 'medium' | 'high';
+    prompt_version: string;
+    corrections: number;
+    calories_mae: number;
+    calories_bias: number;
+    protein_mae: number;
+    protein_bias: number;
+    carbs_mae: number;
+    carbs_bias: number;
+    fat_mae: number;
+    fat_bias: number;
+}
+
+export interface AccuracyReport {
+    since: string | null;
+    rows: AccuracyReportRow[];
+}
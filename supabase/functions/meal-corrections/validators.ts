@@ -0,0 +1,63 @@
+// Input validation for the meal corrections API
+
+import { CorrectionRequest } from './types.ts';
+import { CONFIG } from './config.ts';
+import { ApiError } from '../_shared/errors.ts';
+
+/**
+ * Invalid input (INVALID_INPUT), optionally naming the request field
+ */
+export class ValidationError extends ApiError {
+    constructor(message: string, field?: string) {
+        super('INVALID_INPUT', message, field);
+        this.name = 'ValidationError';
+    }
+}
+
+const UUID_REGEX = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * Validates a correction. All four macros are required - the correction
+ * is the user's full answer for the meal, not a partial edit.
+ */
+export function validateCorrection(data: unknown): CorrectionRequest {
+    if (!data || typeof data !== 'object') {
+        throw new ValidationError('Request body must be a JSON object');
+    }
+
+    const req = data as Record<string, unknown>;
+
+    if (typeof req.analysis_id !== 'string' || !UUID_REGEX.test(req.analysis_id)) {
+        throw new ValidationError('analysis_id is required and must be a valid UUID', 'analysis_id');
+    }
+
+    for (const field of ['calories', 'protein', 'carbs', 'fat'] as const) {
+        const value = req[field];
+        const max = field === 'calories' ? CONFIG.MAX_CALORIES : CONFIG.MAX_MACRO_GRAMS;
+
+        if (typeof value !== 'number' || !Number.isFinite(value) || value < 0 || value > max) {
+            throw new ValidationError(`${field} is required and must be a number between 0 and ${max}`, field);
+        }
+    }
+
+    return {
+        analysis_id: req.analysis_id,
+        calories: Math.round(req.calories as number),
+        protein: req.protein as number,
+        carbs: req.carbs as number,
+        fat: req.fat as number,
+    };
+}
+
+/**
+ * Validates the optional ?since= query parameter (YYYY-MM-DD, UTC)
+ */
+export function validateSince(since: string | null): Date | null {
+    if (since === null) {
+        return null;
+    }
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(since) || isNaN(Date.parse(`${since}T00:00:00Z`))) {
+        throw new ValidationError('since must be a date in YYYY-MM-DD format', 'since');
+    }
+    return new Date(`${since}T00:00:00Z`);
+}
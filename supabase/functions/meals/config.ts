@@ -0,0 +1,14 @@
+// Configuration constants for the meal logging API
+
+export const CONFIG = {
+    // Upper bounds that catch typos (an extra zero), not real meals
+    MAX_CALORIES: 10000,
+    MAX_MACRO_GRAMS: 1000,
+    MAX_NUTRIENT_MG: 20000,
+
+    MAX_TEXT_LENGTH: 500,
+    MAX_IDEMPOTENCY_KEY_LENGTH: 200,
+
+    // India Standard Time, used when the client doesn't send its offset
+    DEFAULT_UTC_OFFSET_MINUTES: 330,
+} as const;
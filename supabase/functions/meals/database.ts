@@ -0,0 +1,163 @@
+// Database helper functions for the meals table
+
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.39.3';
+import { CreateMealRequest, Meal, MealTotals, UpdateMealRequest } from './types.ts';
+
+const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+
+// Everything except the idempotency key, which is internal
+const MEAL_COLUMNS = 'id, user_id, analysis_id, image_url, description, meal_description, calories, protein, carbs, fat, nutrients, confidence, source, ai_model, user_edited, created_at, updated_at';
+
+// Postgres unique_violation
+const UNIQUE_VIOLATION = '23505';
+
+export interface CreateMealResult {
+    meal: Meal;
+    created: boolean;  // False when the idempotency key matched an existing meal
+}
+
+/**
+ * Insert a meal. A retry with the same idempotency key returns the meal
+ * saved by the first request instead of inserting a duplicate.
+ */
+export async function createMeal(userId: string, meal: CreateMealRequest): Promise<CreateMealResult> {
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    if (meal.idempotency_key) {
+        const existing = await findByIdempotencyKey(userId, meal.idempotency_key);
+        if (existing) {
+            return { meal: existing, created: false };
+        }
+    }
+
+    const { data, error } = await supabase
+        .from('meals')
+        .insert({
+            user_id: userId,
+            analysis_id: meal.analysis_id ?? null,
+            image_url: meal.image_url ?? null,
+            description: meal.description || null,
+            meal_description: meal.meal_description || null,
+            calories: meal.calories,
+            protein: meal.protein,
+            carbs: meal.carbs,
+            fat: meal.fat,
+            nutrients: meal.nutrients ?? null,
+            confidence: meal.confidence ?? null,
+            source: meal.source,
+            ai_model: meal.ai_model ?? null,
+            user_edited: meal.user_edited,
+            idempotency_key: meal.idempotency_key ?? null,
+        })
+        .select(MEAL_COLUMNS)
+        .single();
+
+    // A concurrent retry won the race - return its row
+    if (error?.code === UNIQUE_VIOLATION && meal.idempotency_key) {
+        const existing = await findByIdempotencyKey(userId, meal.idempotency_key);
+        if (existing) {
+            return { meal: existing, created: false };
+        }
+    }
+
+    if (error) throw error;
+
+    return { meal: data as Meal, created: true };
+}
+
+/**
+ * Update one of the user's meals. Changing any macro marks the meal as user-edited.
+ * Returns null when the meal doesn't exist or belongs to someone else.
+ */
+export async function updateMeal(userId: string, mealId: string, update: UpdateMealRequest): Promise<Meal | null> {
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    const macrosChanged = ['calories', 'protein', 'carbs', 'fat'].some((field) => field in update);
+
+    const { data, error } = await supabase
+        .from('meals')
+        .update({
+            ...update,
+            ...(macrosChanged ? { user_edited: true } : {}),
+            updated_at: new Date().toISOString(),
+        })
+        .eq('id', mealId)
+        .eq('user_id', userId)
+        .select(MEAL_COLUMNS)
+        .maybeSingle();
+
+    if (error) throw error;
+
+    return data as Meal | null;
+}
+
+/**
+ * Delete one of the user's meals. Returns false when there was nothing to delete.
+ */
+export async function deleteMeal(userId: string, mealId: string): Promise<boolean> {
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    const { data, error } = await supabase
+        .from('meals')
+        .delete()
+        .eq('id', mealId)
+        .eq('user_id', userId)
+        .select('id');
+
+    if (error) throw error;
+
+    return (data?.length ?? 0) > 0;
+}
+
+/**
+ * The user's meals logged in [start, end), oldest first
+ */
+export async function listMeals(userId: string, start: Date, end: Date): Promise<Meal[]> {
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    const { data, error } = await supabase
+        .from('meals')
+        .select(MEAL_COLUMNS)
+        .eq('user_id', userId)
+        .gte('created_at', start.toISOString())
+        .lt('created_at', end.toISOString())
+        .order('created_at', { ascending: true });
+
+    if (error) throw error;
+
+    return (data ?? []) as Meal[];
+}
+
+/**
+ * Record edited macros as a correction of the meal's analysis (feeds the accuracy report)
+ */
+export async function recordCorrection(userId: string, analysisId: string, macros: MealTotals): Promise<void> {
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    const { error } = await supabase.rpc('record_analysis_correction', {
+        p_user_id: userId,
+        p_analysis_id: analysisId,
+        p_calories: macros.calories,
+        p_protein: macros.protein,
+        p_carbs: macros.carbs,
+        p_fat: macros.fat,
+    });
+
+    if (error) throw error;
+}
+
+async function findByIdempotencyKey(userId: string, key: string): Promise<Meal | null> {
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    const { data, error } = await supabase
+        .from('meals')
+        .select(MEAL_COLUMNS)
+        .eq('user_id', userId)
+        .eq('idempotency_key', key)
+        .maybeSingle();
+
+    if (error) throw error;
+
+    return data as Meal | null;
+}
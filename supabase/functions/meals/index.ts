@@ -0,0 +1,217 @@
+// Supabase Edge Function: Meal Logging
+// Create, update, delete and list the user's logged meals
+//
+//   POST   /meals               log a meal (Idempotency-Key header recommended)
+//   PATCH  /meals/:id           edit description or macros
+//   DELETE /meals/:id           remove a meal
+//   GET    /meals?date=YYYY-MM-DD&utc_offset_minutes=330   meals and totals for a day
+
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.39.3';
+import {
+    ValidationError,
+    validateCreateMeal,
+    validateUpdateMeal,
+    validateMealId,
+    validateDate,
+    validateUtcOffset,
+} from './validators.ts';
+import { createMeal, updateMeal, deleteMeal, listMeals, recordCorrection } from './database.ts';
+import { Meal, MealListResponse, MealTotals } from './types.ts';
+import { errorResponse, jsonError } from '../_shared/errors.ts';
+import { log, setLogUser, withRequestLog } from '../_shared/logger.ts';
+
+const CORS_HEADERS = {
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Methods': 'GET, POST, PATCH, DELETE',
+    'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, idempotency-key, x-request-id',
+};
+
+serve((req) => {
+    // Handle CORS preflight
+    if (req.method === 'OPTIONS') {
+        return new Response(null, { headers: CORS_HEADERS });
+    }
+
+    // Every log line of the request carries its id, and so does the response
+    return withRequestLog(req, () => handleRequest(req));
+});
+
+/**
+ * Authenticates the user and runs the meal operation for the method
+ */
+async function handleRequest(req: Request): Promise<Response> {
+    try {
+        // Validate authentication
+        const authHeader = req.headers.get('Authorization');
+        if (!authHeader) {
+            log.warn('Missing authorization header');
+            return jsonError('UNAUTHORIZED', 'Missing authorization header');
+        }
+
+        const token = authHeader.replace('Bearer ', '');
+
+        const supabaseClient = createClient(
+            Deno.env.get('SUPABASE_URL') ?? '',
+            Deno.env.get('SUPABASE_ANON_KEY') ?? '',
+            {
+                global: {
+                    headers: { Authorization: authHeader },
+                },
+            }
+        );
+
+        const {
+            data: { user },
+            error: authError,
+        } = await supabaseClient.auth.getUser(token);
+
+        if (authError || !user) {
+            log.warn('Auth error', { error: authError ?? undefined });
+            return jsonError('UNAUTHORIZED', 'Invalid or expired token');
+        }
+
+        await setLogUser(user.id);
+
+        const url = new URL(req.url);
+        const mealId = mealIdFromPath(url.pathname);
+
+        switch (req.method) {
+            case 'POST': {
+                if (mealId) {
+                    return jsonError('METHOD_NOT_ALLOWED');
+                }
+
+                const meal = validateCreateMeal(await readJson(req), req.headers.get('Idempotency-Key'));
+                const result = await createMeal(user.id, meal);
+
+                log.info(result.created ? 'Meal logged' : 'Idempotent replay, returning meal', { meal_id: result.meal.id });
+
+                if (result.created && result.meal.user_edited) {
+                    await recordEdit(user.id, result.meal);
+                }
+                return jsonResponse(result.meal, result.created ? 201 : 200);
+            }
+
+            case 'PATCH': {
+                const id = validateMealId(mealId);
+                const update = validateUpdateMeal(await readJson(req));
+
+                const meal = await updateMeal(user.id, id, update);
+                if (!meal) {
+                    return jsonError('NOT_FOUND', 'Meal not found');
+                }
+
+                if (['calories', 'protein', 'carbs', 'fat'].some((field) => field in update)) {
+                    await recordEdit(user.id, meal);
+                }
+                return jsonResponse(meal);
+            }
+
+            case 'DELETE': {
+                const id = validateMealId(mealId);
+
+                if (!(await deleteMeal(user.id, id))) {
+                    return jsonError('NOT_FOUND', 'Meal not found');
+                }
+                return new Response(null, { status: 204, headers: CORS_HEADERS });
+            }
+
+            case 'GET': {
+                if (mealId) {
+                    return jsonError('METHOD_NOT_ALLOWED');
+                }
+
+                const date = validateDate(url.searchParams.get('date'));
+                const utcOffsetMinutes = validateUtcOffset(url.searchParams.get('utc_offset_minutes'));
+                const { start, end } = localDateBounds(date, utcOffsetMinutes);
+
+                const meals = await listMeals(user.id, start, end);
+                const response: MealListResponse = { date, meals, totals: sumMeals(meals) };
+                return jsonResponse(response);
+            }
+
+            default:
+                return jsonError('METHOD_NOT_ALLOWED');
+        }
+
+    } catch (error) {
+        log.error('Error processing request', { error });
+        return errorResponse(error);
+    }
+}
+
+/**
+ * Edited macros of an analyzed meal are a correction of that analysis.
+ * Never fails the request - the meal itself is already saved.
+ */
+async function recordEdit(userId: string, meal: Meal): Promise<void> {
+    if (!meal.analysis_id) {
+        return;
+    }
+
+    try {
+        await recordCorrection(userId, meal.analysis_id, meal);
+    } catch (correctionError) {
+        log.error('Failed to record correction', { meal_id: meal.id, error: correctionError });
+    }
+}
+
+/**
+ * The meal id in ".../meals/<id>", or null for the collection
+ */
+function mealIdFromPath(pathname: string): string | null {
+    const segments = pathname.split('/').filter(Boolean);
+    const index = segments.lastIndexOf('meals');
+    return index >= 0 && index < segments.length - 1 ? segments[index + 1] : null;
+}
+
+/**
+ * Start and end (exclusive) of a local calendar date, as UTC instants
+ */
+function localDateBounds(date: string, utcOffsetMinutes: number): { start: Date; end: Date } {
+    const localMidnight = Date.parse(`${date}T00:00:00Z`);
+    const start = new Date(localMidnight - utcOffsetMinutes * 60 * 1000);
+    const end = new Date(start.getTime() + 24 * 60 * 60 * 1000);
+    return { start, end };
+}
+
+function sumMeals(meals: Meal[]): MealTotals {
+    const totals = meals.reduce(
+        (sum, meal) => ({
+            calories: sum.calories + Number(meal.calories),
+            protein: sum.protein + Number(meal.protein),
+            carbs: sum.carbs + Number(meal.carbs),
+            fat: sum.fat + Number(meal.fat),
+        }),
+        { calories: 0, protein: 0, carbs: 0, fat: 0 }
+    );
+
+    return {
+        calories: Math.round(totals.calories),
+        protein: Math.round(totals.protein * 10) / 10,
+        carbs: Math.round(totals.carbs * 10) / 10,
+        fat: Math.round(totals.fat * 10) / 10,
+    };
+}
+
+async function readJson(req: Request): Promise<unknown> {
+    try {
+        return await req.json();
+    } catch {
+        throw new ValidationError('Request body must be valid JSON');
+    }
+}
+
+/**
+ * Helper to return JSON response
+ */
+function jsonResponse(data: Meal | MealListResponse, status = 200): Response {
+    return new Response(JSON.stringify(data), {
+        status,
+        headers: {
+            'Content-Type': 'application/json',
+            'Access-Control-Allow-Origin': '*',
+        },
+    });
+}
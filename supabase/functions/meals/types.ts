@@ -0,0 +1,81 @@
+// Type definitions for the meal logging API
+
+export type Confidence = 'low' | 'medium' | 'high';
+
+export type MealSource = 'ai' | 'label' | 'barcode' | 'manual';
+
+// Optional nutrients beyond the macros (same shape as the analyze-meal response)
+export interface Nutrients {
+    fiber?: number;          // g
+    sugar?: number;          // g
+    saturated_fat?: number;  // g
+    sodium?: number;         // mg
+    iron?: number;           // mg
+    calcium?: number;        // mg
+}
+
+/**
+ * A row of the meals table as returned to clients
+ */
+export interface Meal {
+    id: string;
+    user_id: string;
+    analysis_id: string | null;
+    image_url: string | null;
+    description: string | null;
+    meal_description: string | null;
+    calories: number;
+    protein: number;
+    carbs: number;
+    fat: number;
+    nutrients: Nutrients | null;
+    confidence: Confidence | null;
+    source: MealSource;
+    ai_model: string | null;
+    user_edited: boolean;
+    created_at: string;
+    updated_at: string | null;
+}
+
+export interface CreateMealRequest {
+    analysis_id?: string;       // From the analyze-meal response
+    image_url?: string;
+    description?: string;       // What the user typed
+    meal_description?: string;  // What the AI called it
+    calories: number;
+    protein: number;
+    carbs: number;
+    fat: number;
+    nutrients?: Nutrients;
+    confidence?: Confidence;
+    source: MealSource;
+    ai_model?: string;          // ai_model_used from the analysis
+    user_edited: boolean;       // True when the user changed the AI's macros before saving
+    idempotency_key?: string;   // Idempotency-Key header, or this field
+}
+
+/**
+ * Fields a client may change on a saved meal
+ */
+export interface UpdateMealRequest {
+    description?: string | null;
+    meal_description?: string | null;
+    calories?: number;
+    protein?: number;
+    carbs?: number;
+    fat?: number;
+    nutrients?: Nutrients | null;
+}
+
+export interface MealTotals {
+    calories: number;
+    protein: number;
+    carbs: number;
+    fat: number;
+}
+
+export interface MealListResponse {
+    date: string;  // YYYY-MM-DD, in the user's local time
+    meals: Meal[];
+    totals: MealTotals;
+}
@@ -0,0 +1,220 @@
+// Input validation for the meal logging API
+
+import { CreateMealRequest, MealSource, Nutrients, UpdateMealRequest } from './types.ts';
+import { CONFIG } from './config.ts';
+import { ApiError } from '../_shared/errors.ts';
+
+/**
+ * Invalid input (INVALID_INPUT), optionally naming the request field
+ */
+export class ValidationError extends ApiError {
+    constructor(message: string, field?: string) {
+        super('INVALID_INPUT', message, field);
+        this.name = 'ValidationError';
+    }
+}
+
+const NUTRIENT_KEYS = ['fiber', 'sugar', 'saturated_fat', 'sodium', 'iron', 'calcium'] as const;
+
+const UUID_REGEX = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * Validates a meal id taken from the URL
+ */
+export function validateMealId(id: string | null): string {
+    if (!id || !UUID_REGEX.test(id)) {
+        throw new ValidationError('Meal id must be a valid UUID', 'id');
+    }
+    return id;
+}
+
+/**
+ * Validates a new meal. The idempotency key comes from the
+ * Idempotency-Key header when present, otherwise from the body.
+ */
+export function validateCreateMeal(data: unknown, headerKey: string | null): CreateMealRequest {
+    if (!data || typeof data !== 'object') {
+        throw new ValidationError('Request body must be a JSON object');
+    }
+
+    const req = data as Record<string, unknown>;
+
+    if (req.analysis_id !== undefined && (typeof req.analysis_id !== 'string' || !UUID_REGEX.test(req.analysis_id))) {
+        throw new ValidationError('analysis_id must be a valid UUID if provided', 'analysis_id');
+    }
+
+    if (req.image_url !== undefined && (typeof req.image_url !== 'string' || !isValidUrl(req.image_url))) {
+        throw new ValidationError('image_url must be a valid HTTP/HTTPS URL if provided', 'image_url');
+    }
+
+    validateOptionalText(req, 'description');
+    validateOptionalText(req, 'meal_description');
+    validateOptionalText(req, 'ai_model');
+
+    for (const field of ['calories', 'protein', 'carbs', 'fat'] as const) {
+        if (req[field] === undefined) {
+            throw new ValidationError(`${field} is required`, field);
+        }
+        validateMacro(req, field);
+    }
+
+    if (req.nutrients !== undefined) {
+        validateNutrients(req.nutrients);
+    }
+
+    if (req.confidence !== undefined && !['low', 'medium', 'high'].includes(req.confidence as string)) {
+        throw new ValidationError('confidence must be one of: low, medium, high', 'confidence');
+    }
+
+    // Anything that came out of analyze-meal is an AI meal
+    const source = (req.source ?? (req.analysis_id ? 'ai' : 'manual')) as MealSource;
+    if (!['ai', 'label', 'barcode', 'manual'].includes(source)) {
+        throw new ValidationError('source must be one of: ai, label, barcode, manual', 'source');
+    }
+
+    if (req.user_edited !== undefined && typeof req.user_edited !== 'boolean') {
+        throw new ValidationError('user_edited must be a boolean if provided', 'user_edited');
+    }
+
+    const idempotencyKey = headerKey ?? req.idempotency_key;
+    if (idempotencyKey !== undefined) {
+        if (
+            typeof idempotencyKey !== 'string' ||
+            idempotencyKey.trim().length === 0 ||
+            idempotencyKey.length > CONFIG.MAX_IDEMPOTENCY_KEY_LENGTH
+        ) {
+            throw new ValidationError(
+                `Idempotency key must be a non-empty string of at most ${CONFIG.MAX_IDEMPOTENCY_KEY_LENGTH} characters`,
+                'idempotency_key'
+            );
+        }
+    }
+
+    return {
+        analysis_id: req.analysis_id as string | undefined,
+        image_url: req.image_url as string | undefined,
+        description: req.description as string | undefined,
+        meal_description: req.meal_description as string | undefined,
+        calories: Math.round(req.calories as number),
+        protein: req.protein as number,
+        carbs: req.carbs as number,
+        fat: req.fat as number,
+        nutrients: req.nutrients as Nutrients | undefined,
+        confidence: req.confidence as CreateMealRequest['confidence'],
+        source,
+        ai_model: req.ai_model as string | undefined,
+        user_edited: (req.user_edited as boolean | undefined) ?? false,
+        idempotency_key: idempotencyKey as string | undefined,
+    };
+}
+
+/**
+ * Validates a partial update. At least one field must be present.
+ */
+export function validateUpdateMeal(data: unknown): UpdateMealRequest {
+    if (!data || typeof data !== 'object') {
+        throw new ValidationError('Request body must be a JSON object');
+    }
+
+    const req = data as Record<string, unknown>;
+    const update: UpdateMealRequest = {};
+
+    for (const field of ['description', 'meal_description'] as const) {
+        if (req[field] === null) {
+            update[field] = null;
+        } else if (req[field] !== undefined) {
+            validateOptionalText(req, field);
+            update[field] = req[field] as string;
+        }
+    }
+
+    for (const field of ['calories', 'protein', 'carbs', 'fat'] as const) {
+        if (req[field] !== undefined) {
+            validateMacro(req, field);
+            update[field] = field === 'calories' ? Math.round(req[field] as number) : req[field] as number;
+        }
+    }
+
+    if (req.nutrients === null) {
+        update.nutrients = null;
+    } else if (req.nutrients !== undefined) {
+        validateNutrients(req.nutrients);
+        update.nutrients = req.nutrients as Nutrients;
+    }
+
+    if (Object.keys(update).length === 0) {
+        throw new ValidationError(
+            'Nothing to update. Allowed fields: description, meal_description, calories, protein, carbs, fat, nutrients'
+        );
+    }
+
+    return update;
+}
+
+/**
+ * Validates the ?date= query parameter (YYYY-MM-DD)
+ */
+export function validateDate(date: string | null): string {
+    if (!date || !/^\d{4}-\d{2}-\d{2}$/.test(date) || isNaN(Date.parse(`${date}T00:00:00Z`))) {
+        throw new ValidationError('date is required in YYYY-MM-DD format', 'date');
+    }
+    return date;
+}
+
+/**
+ * Validates the optional ?utc_offset_minutes= query parameter
+ */
+export function validateUtcOffset(value: string | null): number {
+    if (value === null) {
+        return CONFIG.DEFAULT_UTC_OFFSET_MINUTES;
+    }
+
+    const offset = Number(value);
+    if (!Number.isInteger(offset) || offset < -720 || offset > 840) {
+        throw new ValidationError('utc_offset_minutes must be an integer between -720 and 840', 'utc_offset_minutes');
+    }
+    return offset;
+}
+
+function validateMacro(req: Record<string, unknown>, field: 'calories' | 'protein' | 'carbs' | 'fat'): void {
+    const value = req[field];
+    const max = field === 'calories' ? CONFIG.MAX_CALORIES : CONFIG.MAX_MACRO_GRAMS;
+
+    if (typeof value !== 'number' || !Number.isFinite(value) || value < 0 || value > max) {
+        throw new ValidationError(`${field} must be a number between 0 and ${max}`, field);
+    }
+}
+
+function validateNutrients(value: unknown): void {
+    if (!value || typeof value !== 'object' || Array.isArray(value)) {
+        throw new ValidationError('nutrients must be an object', 'nutrients');
+    }
+
+    for (const [key, amount] of Object.entries(value)) {
+        if (!(NUTRIENT_KEYS as readonly string[]).includes(key)) {
+            throw new ValidationError(`Unknown nutrient: ${key}. Allowed: ${NUTRIENT_KEYS.join(', ')}`, `nutrients.${key}`);
+        }
+        if (typeof amount !== 'number' || !Number.isFinite(amount) || amount < 0 || amount > CONFIG.MAX_NUTRIENT_MG) {
+            throw new ValidationError(`nutrients.${key} must be a number between 0 and ${CONFIG.MAX_NUTRIENT_MG}`, `nutrients.${key}`);
+        }
+    }
+}
+
+function validateOptionalText(req: Record<string, unknown>, field: string): void {
+    const value = req[field];
+    if (value === undefined) {
+        return;
+    }
+    if (typeof value !== 'string' || value.length > CONFIG.MAX_TEXT_LENGTH) {
+        throw new ValidationError(`${field} must be a string of at most ${CONFIG.MAX_TEXT_LENGTH} characters`, field);
+    }
+}
+
+function isValidUrl(urlString: string): boolean {
+    try {
+        const url = new URL(urlString);
+        return url.protocol === 'http:' || url.protocol === 'https:';
+    } catch {
+        return false;
+    }
+}
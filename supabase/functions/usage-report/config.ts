@@ -0,0 +1,17 @@
+// Configuration constants for the usage report API
+
+export const CONFIG = {
+    // app_metadata.role that may read the report with a user JWT
+    ADMIN_ROLE: 'admin',
+
+    // Longest range one report may cover
+    MAX_RANGE_DAYS: 731,
+
+    // Default range when from= is missing: the last 30 days, or the last 12 months
+    DEFAULT_DAYS: 30,
+    DEFAULT_MONTHS: 12,
+
+    // Top users by spend
+    DEFAULT_TOP_USERS: 10,
+    MAX_TOP_USERS: 1000,
+} as const;
@@ -0,0 +1,28 @@
+// Tests for CSV export
+
+import { assertEquals } from 'https://deno.land/std@0.168.0/testing/asserts.ts';
+import { toCsv } from './csv.ts';
+
+interface Row {
+    name: string | null;
+    calls: number;
+}
+
+Deno.test('toCsv quotes, escapes and neutralizes formulas', () => {
+    const cases: [Row, string][] = [
+        [{ name: 'Asha', calls: 3 }, 'Asha,3'],
+        [{ name: null, calls: 0 }, ',0'],
+        [{ name: 'Rao, K', calls: 1 }, '"Rao, K",1'],
+        [{ name: 'say "hi"', calls: 1 }, '"say ""hi""",1'],
+        [{ name: 'two\nlines', calls: 1 }, '"two\nlines",1'],
+        [{ name: '=SUM(A1:A9)', calls: 1 }, "'=SUM(A1:A9),1"],
+        [{ name: '-1', calls: -1 }, "'-1,-1"],  // Only text cells are prefixed
+    ];
+    for (const [row, expected] of cases) {
+        assertEquals(toCsv([row], ['name', 'calls']), `name,calls\r\n${expected}\r\n`, expected);
+    }
+});
+
+Deno.test('toCsv writes only the header for no rows', () => {
+    assertEquals(toCsv<Row>([], ['name', 'calls']), 'name,calls\r\n');
+});
@@ -0,0 +1,24 @@
+// CSV export of report tables
+
+/**
+ * Formats rows as CSV (RFC 4180) with a header line. Text cells that a
+ * spreadsheet would run as a formula (=, +, -, @) are prefixed with a quote.
+ */
+export function toCsv<T extends object>(rows: T[], columns: (keyof T & string)[]): string {
+    const lines = [columns.join(',')];
+    for (const row of rows) {
+        lines.push(columns.map((column) => csvCell(row[column])).join(','));
+    }
+    return lines.join('\r\n') + '\r\n';
+}
+
+function csvCell(value: unknown): string {
+    if (value === null || value === undefined) {
+        return '';
+    }
+    let text = String(value);
+    if (typeof value === 'string' && /^[=+\-@]/.test(text)) {
+        text = `'${text}`;
+    }
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
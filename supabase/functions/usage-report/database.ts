@@ -0,0 +1,49 @@
+// Database operations for the usage report API
+
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.39.3';
+import { ReportPeriod, UsageReportRow, UsageSummaryRow, UserUsageRow } from './types.ts';
+
+const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+
+/**
+ * Analyses, calls, cost, latency and error/fallback rates per day or month
+ */
+export async function getUsageSummary(from: string, to: string, period: ReportPeriod): Promise<UsageSummaryRow[]> {
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    const { data, error } = await supabase
+        .rpc('ai_usage_summary', { p_from: from, p_to: to, p_period: period });
+
+    if (error) throw error;
+
+    return (data ?? []) as UsageSummaryRow[];
+}
+
+/**
+ * Calls, tokens and cost per day or month, provider and mode
+ */
+export async function getUsageReport(from: string, to: string, period: ReportPeriod): Promise<UsageReportRow[]> {
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    const { data, error } = await supabase
+        .rpc('ai_usage_report', { p_from: from, p_to: to, p_period: period });
+
+    if (error) throw error;
+
+    return (data ?? []) as UsageReportRow[];
+}
+
+/**
+ * The users with the highest AI spend in the range
+ */
+export async function getTopUsers(from: string, to: string, limit: number): Promise<UserUsageRow[]> {
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    const { data, error } = await supabase
+        .rpc('ai_usage_top_users', { p_from: from, p_to: to, p_limit: limit });
+
+    if (error) throw error;
+
+    return (data ?? []) as UserUsageRow[];
+}
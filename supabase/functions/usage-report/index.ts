@@ -0,0 +1,178 @@
+// Supabase Edge Function: Usage Report
+// AI calls and cost per day or month, split by provider, mode and user (admins only)
+//
+//   GET /usage-report?from=YYYY-MM-DD&to=YYYY-MM-DD&period=day|month&limit=10
+//   GET /usage-report?...&format=csv&table=summary|usage|users
+//
+// Service role key, or a user JWT with app_metadata.role = 'admin'
+
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.39.3';
+import { validateReportQuery } from './validators.ts';
+import { getTopUsers, getUsageReport, getUsageSummary } from './database.ts';
+import { toCsv } from './csv.ts';
+import { CONFIG } from './config.ts';
+import {
+    ReportQuery,
+    ReportTable,
+    UsageReport,
+    UsageReportRow,
+    UsageSummaryRow,
+    UserUsageRow,
+} from './types.ts';
+import { isServiceRoleKey } from '../_shared/auth.ts';
+import { errorResponse, jsonError } from '../_shared/errors.ts';
+import { log, setLogUser, withRequestLog } from '../_shared/logger.ts';
+
+const SUMMARY_COLUMNS: (keyof UsageSummaryRow)[] = [
+    'period', 'analyses', 'failed_analyses', 'fallback_analyses', 'calls', 'failed_calls',
+    'users', 'cost_inr', 'avg_latency_ms', 'error_rate', 'fallback_rate',
+];
+
+const USAGE_COLUMNS: (keyof UsageReportRow)[] = [
+    'period', 'provider', 'mode', 'calls', 'used_calls', 'discarded_calls', 'failed_calls', 'fallback_calls',
+    'users', 'input_tokens', 'output_tokens', 'cost_inr', 'avg_latency_ms', 'error_rate',
+];
+
+const USER_COLUMNS: (keyof UserUsageRow)[] = [
+    'user_id', 'email', 'plan', 'analyses', 'image_calls', 'text_calls', 'calls', 'failed_calls', 'cost_inr',
+];
+
+serve((req) => {
+    // Handle CORS preflight
+    if (req.method === 'OPTIONS') {
+        return new Response(null, {
+            headers: {
+                'Access-Control-Allow-Origin': '*',
+                'Access-Control-Allow-Methods': 'GET',
+                'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, x-request-id',
+            },
+        });
+    }
+
+    // Every log line of the request carries its id, and so does the response
+    return withRequestLog(req, () => handleRequest(req));
+});
+
+/**
+ * Checks admin access and builds the report as JSON or CSV
+ */
+async function handleRequest(req: Request): Promise<Response> {
+    try {
+        if (req.method !== 'GET') {
+            return jsonError('METHOD_NOT_ALLOWED');
+        }
+
+        const authHeader = req.headers.get('Authorization');
+        if (!authHeader) {
+            log.warn('Missing authorization header');
+            return jsonError('UNAUTHORIZED', 'Missing authorization header');
+        }
+
+        // The report covers every user's data and spend
+        const token = authHeader.replace('Bearer ', '');
+        if (!(await isAdmin(token, authHeader))) {
+            log.warn('Usage report requested without admin access');
+            return jsonError('FORBIDDEN');
+        }
+
+        const query = validateReportQuery(new URL(req.url).searchParams);
+
+        if (query.format === 'csv') {
+            return csvResponse(await buildCsv(query), `ai-usage-${query.table}-${query.from}-${query.to}.csv`);
+        }
+
+        const [summary, usage, topUsers] = await Promise.all([
+            getUsageSummary(query.from, query.to, query.period),
+            getUsageReport(query.from, query.to, query.period),
+            getTopUsers(query.from, query.to, query.limit),
+        ]);
+
+        const report: UsageReport = {
+            from: query.from,
+            to: query.to,
+            period: query.period,
+            summary,
+            usage,
+            top_users: topUsers,
+        };
+        return jsonResponse(report);
+
+    } catch (error) {
+        log.error('Error processing request', { error });
+        return errorResponse(error);
+    }
+}
+
+/**
+ * The service role key, or a signed-in user whose app_metadata carries the
+ * admin role. app_metadata can only be set with the service role key.
+ */
+async function isAdmin(token: string, authHeader: string): Promise<boolean> {
+    if (await isServiceRoleKey(token)) {
+        return true;
+    }
+
+    const supabaseClient = createClient(
+        Deno.env.get('SUPABASE_URL') ?? '',
+        Deno.env.get('SUPABASE_ANON_KEY') ?? '',
+        {
+            global: {
+                headers: { Authorization: authHeader },
+            },
+        }
+    );
+
+    const {
+        data: { user },
+        error: authError,
+    } = await supabaseClient.auth.getUser(token);
+
+    if (authError || !user) {
+        log.warn('Auth error', { error: authError ?? undefined });
+        return false;
+    }
+
+    await setLogUser(user.id);
+
+    return user.app_metadata?.role === CONFIG.ADMIN_ROLE;
+}
+
+/**
+ * One table of the report as CSV
+ */
+async function buildCsv(query: ReportQuery): Promise<string> {
+    const tables: Record<ReportTable, () => Promise<string>> = {
+        summary: async () => toCsv(await getUsageSummary(query.from, query.to, query.period), SUMMARY_COLUMNS),
+        usage: async () => toCsv(await getUsageReport(query.from, query.to, query.period), USAGE_COLUMNS),
+        users: async () => toCsv(await getTopUsers(query.from, query.to, query.limit), USER_COLUMNS),
+    };
+    return await tables[query.table]();
+}
+
+/**
+ * Helper to return a CSV download
+ */
+function csvResponse(csv: string, filename: string): Response {
+    return new Response(csv, {
+        status: 200,
+        headers: {
+            'Content-Type': 'text/csv; charset=utf-8',
+            'Content-Disposition': `attachment; filename="${filename}"`,
+            'Access-Control-Allow-Origin': '*',
+        },
+    });
+}
+
+/**
+ * Helper to return JSON response
+ */
+function jsonResponse(data: UsageReport, status = 200): Response {
+    return new Response(JSON.stringify(data), {
+        status,
+        headers: {
+            'Content-Type': 'application/json',
+            'Access-Control-Allow-Origin': '*',
+        },
+    });
+}
@@ -0,0 +1,83 @@
+// Type definitions for the usage report API
+
+export type ReportPeriod = 'day' | 'month';
+
+export type ReportFormat = 'json' | 'csv';
+
+/**
+ * Which part of the report a CSV export contains
+ */
+export type ReportTable = 'summary' | 'usage' | 'users';
+
+export interface ReportQuery {
+    from: string;  // YYYY-MM-DD, inclusive (UTC usage dates)
+    to: string;
+    period: ReportPeriod;
+    format: ReportFormat;
+    table: ReportTable;
+    limit: number;  // Number of top users
+}
+
+/**
+ * Totals for one day or month. An analysis failed when none of its model
+ * calls was used, and fell back when a later provider had to step in.
+ * Rates are fractions (0.05 = 5%), null without analyses.
+ */
+export interface UsageSummaryRow {
+    period: string;
+    analyses: number;
+    failed_analyses: number;
+    fallback_analyses: number;
+    calls: number;
+    failed_calls: number;
+    users: number;
+    cost_inr: number;
+    avg_latency_ms: number | null;
+    error_rate: number | null;
+    fallback_rate: number | null;
+}
+
+/**
+ * Model calls for one day or month, provider and mode ('unknown' for
+ * calls logged before modes were recorded)
+ */
+export interface UsageReportRow {
+    period: string;
+    provider: string;
+    mode: 'image' | 'text' | 'label' | 'unknown';
+    calls: number;
+    used_calls: number;
+    discarded_calls: number;
+    failed_calls: number;
+    fallback_calls: number;
+    users: number;
+    input_tokens: number;
+    output_tokens: number;
+    cost_inr: number;
+    avg_latency_ms: number | null;
+    error_rate: number;
+}
+
+/**
+ * One user's usage over the whole range
+ */
+export interface UserUsageRow {
+    user_id: string;
+    email: string | null;
+    plan: string;
+    analyses: number;
+    image_calls: number;  // Label photos included
+    text_calls: number;
+    calls: number;
+    failed_calls: number;
+    cost_inr: number;
+}
+
+export interface UsageReport {
+    from: string;
+    to: string;
+    period: ReportPeriod;
+    summary: UsageSummaryRow[];
+    usage: UsageReportRow[];
+    top_users: UserUsageRow[];
+}
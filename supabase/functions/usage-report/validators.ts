@@ -0,0 +1,85 @@
+// Input validation for the usage report API
+
+import { ReportFormat, ReportPeriod, ReportQuery, ReportTable } from './types.ts';
+import { CONFIG } from './config.ts';
+import { ApiError } from '../_shared/errors.ts';
+
+/**
+ * Invalid input (INVALID_INPUT), optionally naming the request field
+ */
+export class ValidationError extends ApiError {
+    constructor(message: string, field?: string) {
+        super('INVALID_INPUT', message, field);
+        this.name = 'ValidationError';
+    }
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const PERIODS: ReportPeriod[] = ['day', 'month'];
+const FORMATS: ReportFormat[] = ['json', 'csv'];
+const TABLES: ReportTable[] = ['summary', 'usage', 'users'];
+
+/**
+ * Validates the report's query parameters and fills in the defaults:
+ * up to today (UTC), the last 30 days by day or the last 12 months by month
+ */
+export function validateReportQuery(params: URLSearchParams, now = new Date()): ReportQuery {
+    const period = validateOption(params.get('period'), PERIODS, 'period') ?? 'day';
+    const format = validateOption(params.get('format'), FORMATS, 'format') ?? 'json';
+    const table = validateOption(params.get('table'), TABLES, 'table') ?? 'usage';
+
+    const to = validateDate(params.get('to'), 'to') ?? startOfDay(now);
+    const from = validateDate(params.get('from'), 'from') ?? defaultFrom(to, period);
+
+    if (from > to) {
+        throw new ValidationError('from must not be after to', 'from');
+    }
+    if ((to.getTime() - from.getTime()) / DAY_MS + 1 > CONFIG.MAX_RANGE_DAYS) {
+        throw new ValidationError(`The report can cover at most ${CONFIG.MAX_RANGE_DAYS} days`, 'from');
+    }
+
+    const rawLimit = params.get('limit');
+    const limit = rawLimit === null ? CONFIG.DEFAULT_TOP_USERS : Number(rawLimit);
+    if (!Number.isInteger(limit) || limit < 1 || limit > CONFIG.MAX_TOP_USERS) {
+        throw new ValidationError(`limit must be a whole number between 1 and ${CONFIG.MAX_TOP_USERS}`, 'limit');
+    }
+
+    return { from: formatDate(from), to: formatDate(to), period, format, table, limit };
+}
+
+function validateOption<T extends string>(value: string | null, options: T[], name: string): T | null {
+    if (value === null) {
+        return null;
+    }
+    if (!options.includes(value as T)) {
+        throw new ValidationError(`${name} must be one of: ${options.join(', ')}`, name);
+    }
+    return value as T;
+}
+
+function validateDate(value: string | null, name: string): Date | null {
+    if (value === null) {
+        return null;
+    }
+    const date = new Date(`${value}T00:00:00Z`);
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(value) || isNaN(date.getTime()) || formatDate(date) !== value) {
+        throw new ValidationError(`${name} must be a date in YYYY-MM-DD format`, name);
+    }
+    return date;
+}
+
+function defaultFrom(to: Date, period: ReportPeriod): Date {
+    if (period === 'month') {
+        return new Date(Date.UTC(to.getUTCFullYear(), to.getUTCMonth() - (CONFIG.DEFAULT_MONTHS - 1), 1));
+    }
+    return new Date(to.getTime() - (CONFIG.DEFAULT_DAYS - 1) * DAY_MS);
+}
+
+function startOfDay(date: Date): Date {
+    return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+}
+
+function formatDate(date: Date): string {
+    return date.toISOString().slice(0, 10);
+}
@@ -0,0 +1,24 @@
+-- ============================================================================
+-- Analysis cache
+-- ============================================================================
+-- Content-addressed cache for analyze-meal results. The key is a SHA-256 of
+-- the image bytes (or normalized description), the provider set and the
+-- prompt version. Only the Edge Function (service role) reads and writes it.
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS analysis_cache (
+    cache_key TEXT PRIMARY KEY,
+    provider TEXT NOT NULL,
+    prompt_version TEXT NOT NULL,
+    result JSONB NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    expires_at TIMESTAMP WITH TIME ZONE NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS analysis_cache_expires_at_idx ON analysis_cache (expires_at);
+
+-- No policies: clients never touch the cache directly
+ALTER TABLE analysis_cache ENABLE ROW LEVEL SECURITY;
+
+-- Expired rows are ignored on read; purge them periodically, e.g.
+-- DELETE FROM analysis_cache WHERE expires_at < NOW();
@@ -0,0 +1,77 @@
+-- ============================================================================
+-- Atomic AI usage accounting
+-- ============================================================================
+-- Replaces the select-then-update in recordAIUsage with single-statement
+-- RPCs, so concurrent requests (double-tapped capture button) can neither
+-- overrun the daily limit nor lose an increment.
+--
+-- Flow: reserve_ai_quota() before the AI call, then either
+--       record_ai_cost() on success or release_ai_quota() on failure.
+-- ============================================================================
+
+-- One row per user per day (required by ON CONFLICT below)
+CREATE UNIQUE INDEX IF NOT EXISTS ai_usage_user_date_idx ON ai_usage (user_id, usage_date);
+
+-- Reserve one quota slot. Returns allowed = false (and the current count)
+-- when the user is already at p_daily_limit. reserved_date is returned so
+-- the caller releases the same row even if the request crosses midnight.
+CREATE OR REPLACE FUNCTION reserve_ai_quota(p_user_id UUID, p_daily_limit INTEGER)
+RETURNS TABLE (allowed BOOLEAN, current_calls INTEGER, reserved_date DATE)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_today DATE := (NOW() AT TIME ZONE 'UTC')::DATE;
+    v_calls INTEGER;
+BEGIN
+    INSERT INTO ai_usage AS u (user_id, usage_date, calls, estimated_cost)
+    VALUES (p_user_id, v_today, 1, 0)
+    ON CONFLICT (user_id, usage_date) DO UPDATE
+        SET calls = u.calls + 1
+        WHERE u.calls < p_daily_limit
+    RETURNING u.calls INTO v_calls;
+
+    IF v_calls IS NULL THEN
+        -- Conflict row was at the limit, nothing was updated
+        SELECT u.calls INTO v_calls
+        FROM ai_usage u
+        WHERE u.user_id = p_user_id AND u.usage_date = v_today;
+
+        RETURN QUERY SELECT FALSE, v_calls, v_today;
+        RETURN;
+    END IF;
+
+    RETURN QUERY SELECT TRUE, v_calls, v_today;
+END;
+$$;
+
+-- Give back a reserved slot when the analysis failed
+CREATE OR REPLACE FUNCTION release_ai_quota(p_user_id UUID, p_usage_date DATE)
+RETURNS VOID
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    UPDATE ai_usage
+    SET calls = GREATEST(calls - 1, 0)
+    WHERE user_id = p_user_id AND usage_date = p_usage_date;
+$$;
+
+-- Add the cost of a completed analysis to the reserved row
+CREATE OR REPLACE FUNCTION record_ai_cost(p_user_id UUID, p_usage_date DATE, p_cost NUMERIC)
+RETURNS VOID
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    INSERT INTO ai_usage AS u (user_id, usage_date, calls, estimated_cost)
+    VALUES (p_user_id, p_usage_date, 0, p_cost)
+    ON CONFLICT (user_id, usage_date) DO UPDATE
+        SET estimated_cost = u.estimated_cost + EXCLUDED.estimated_cost;
+$$;
+
+-- Only the Edge Function (service role) may call these
+REVOKE EXECUTE ON FUNCTION reserve_ai_quota(UUID, INTEGER) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION release_ai_quota(UUID, DATE) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION record_ai_cost(UUID, DATE, NUMERIC) FROM PUBLIC, anon, authenticated;
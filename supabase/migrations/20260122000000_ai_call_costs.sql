@@ -0,0 +1,64 @@
+-- ============================================================================
+-- Token-based AI cost tracking
+-- ============================================================================
+-- Every model call (including discarded low-confidence fallbacks and failed
+-- analyses) is logged with its token usage and computed cost. The daily
+-- ai_usage.estimated_cost is incremented in the same transaction, so the
+-- monthly cost guard reflects real spend.
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS ai_calls (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID REFERENCES auth.users(id) NOT NULL,
+    usage_date DATE NOT NULL,
+    provider TEXT NOT NULL,
+    model TEXT,
+    input_tokens INTEGER NOT NULL DEFAULT 0,
+    output_tokens INTEGER NOT NULL DEFAULT 0,
+    cost_inr NUMERIC(12, 6) NOT NULL DEFAULT 0,
+    outcome TEXT NOT NULL CHECK (outcome IN ('used', 'discarded', 'failed')),
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS ai_calls_usage_date_idx ON ai_calls (usage_date);
+CREATE INDEX IF NOT EXISTS ai_calls_user_date_idx ON ai_calls (user_id, usage_date);
+
+-- No policies: only the Edge Function (service role) reads and writes it
+ALTER TABLE ai_calls ENABLE ROW LEVEL SECURITY;
+
+-- Log a batch of calls and add their total cost to the user's daily usage.
+-- p_calls is a JSON array of { provider, model, input_tokens, output_tokens, cost_inr, outcome }
+CREATE OR REPLACE FUNCTION record_ai_calls(p_user_id UUID, p_usage_date DATE, p_calls JSONB)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_total NUMERIC;
+BEGIN
+    INSERT INTO ai_calls (user_id, usage_date, provider, model, input_tokens, output_tokens, cost_inr, outcome)
+    SELECT p_user_id, p_usage_date, c.provider, c.model, c.input_tokens, c.output_tokens, c.cost_inr, c.outcome
+    FROM jsonb_to_recordset(p_calls) AS c(
+        provider TEXT,
+        model TEXT,
+        input_tokens INTEGER,
+        output_tokens INTEGER,
+        cost_inr NUMERIC,
+        outcome TEXT
+    );
+
+    SELECT COALESCE(SUM((c->>'cost_inr')::NUMERIC), 0) INTO v_total
+    FROM jsonb_array_elements(p_calls) AS c;
+
+    INSERT INTO ai_usage AS u (user_id, usage_date, calls, estimated_cost)
+    VALUES (p_user_id, p_usage_date, 0, v_total)
+    ON CONFLICT (user_id, usage_date) DO UPDATE
+        SET estimated_cost = u.estimated_cost + EXCLUDED.estimated_cost;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION record_ai_calls(UUID, DATE, JSONB) FROM PUBLIC, anon, authenticated;
+
+-- Superseded by record_ai_calls
+DROP FUNCTION IF EXISTS record_ai_cost(UUID, DATE, NUMERIC);
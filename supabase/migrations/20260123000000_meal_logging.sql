@@ -0,0 +1,24 @@
+-- ============================================================================
+-- Server-side meal logging
+-- ============================================================================
+-- The meals Edge Function now owns create/update/delete/list, so every client
+-- stores the same fields. Creates carry an idempotency key: a retried request
+-- returns the meal that was already saved instead of logging it twice.
+-- ============================================================================
+
+ALTER TABLE meals ADD COLUMN IF NOT EXISTS analysis_id UUID;
+ALTER TABLE meals ADD COLUMN IF NOT EXISTS ai_model TEXT;
+ALTER TABLE meals ADD COLUMN IF NOT EXISTS meal_description TEXT;
+ALTER TABLE meals ADD COLUMN IF NOT EXISTS user_edited BOOLEAN NOT NULL DEFAULT FALSE;
+ALTER TABLE meals ADD COLUMN IF NOT EXISTS idempotency_key TEXT;
+ALTER TABLE meals ADD COLUMN IF NOT EXISTS updated_at TIMESTAMP WITH TIME ZONE;
+
+-- Text-only and manual meals have no photo; manual entries have no AI confidence
+ALTER TABLE meals ALTER COLUMN image_url DROP NOT NULL;
+ALTER TABLE meals ALTER COLUMN confidence DROP NOT NULL;
+
+-- One meal per (user, key). NULL keys (older rows) never conflict.
+CREATE UNIQUE INDEX IF NOT EXISTS meals_user_idempotency_idx ON meals (user_id, idempotency_key);
+
+-- Listing a day's meals
+CREATE INDEX IF NOT EXISTS meals_user_created_idx ON meals (user_id, created_at);
@@ -0,0 +1,153 @@
+-- ============================================================================
+-- Analysis corrections and accuracy dataset
+-- ============================================================================
+-- analyze-meal stores every estimate it returns in meal_analyses (keyed by the
+-- analysis_id in the response). When the user corrects the macros - via the
+-- meal-corrections function or by editing a logged meal - the correction is
+-- stored next to a snapshot of the original estimate, so per-model and
+-- per-confidence error can be measured.
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS meal_analyses (
+    id UUID PRIMARY KEY,
+    user_id UUID REFERENCES auth.users(id) NOT NULL,
+    mode TEXT NOT NULL CHECK (mode IN ('image', 'text')),
+    calories INTEGER NOT NULL,
+    protein NUMERIC(6, 1) NOT NULL,
+    carbs NUMERIC(6, 1) NOT NULL,
+    fat NUMERIC(6, 1) NOT NULL,
+    confidence TEXT NOT NULL CHECK (confidence IN ('low', 'medium', 'high')),
+    items JSONB,
+    ai_model TEXT,
+    prompt_version TEXT NOT NULL,
+    image_hash TEXT,       -- SHA-256 of the image bytes (comma-separated for several photos)
+    description TEXT,
+    cached BOOLEAN NOT NULL DEFAULT FALSE,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS meal_analyses_user_created_idx ON meal_analyses (user_id, created_at);
+
+CREATE TABLE IF NOT EXISTS analysis_corrections (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    analysis_id UUID NOT NULL UNIQUE REFERENCES meal_analyses(id) ON DELETE CASCADE,
+    user_id UUID REFERENCES auth.users(id) NOT NULL,
+    -- Snapshot of the estimate, so the dataset stands on its own
+    original_calories INTEGER NOT NULL,
+    original_protein NUMERIC(6, 1) NOT NULL,
+    original_carbs NUMERIC(6, 1) NOT NULL,
+    original_fat NUMERIC(6, 1) NOT NULL,
+    original_confidence TEXT NOT NULL,
+    corrected_calories INTEGER NOT NULL,
+    corrected_protein NUMERIC(6, 1) NOT NULL,
+    corrected_carbs NUMERIC(6, 1) NOT NULL,
+    corrected_fat NUMERIC(6, 1) NOT NULL,
+    ai_model TEXT,
+    prompt_version TEXT NOT NULL,
+    image_hash TEXT,
+    description TEXT,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS analysis_corrections_created_idx ON analysis_corrections (created_at);
+
+-- No policies: only the Edge Functions (service role) read and write them
+ALTER TABLE meal_analyses ENABLE ROW LEVEL SECURITY;
+ALTER TABLE analysis_corrections ENABLE ROW LEVEL SECURITY;
+
+-- Record (or replace) the user's correction of one of their analyses.
+-- Returns NULL when the analysis doesn't exist or belongs to another user.
+CREATE OR REPLACE FUNCTION record_analysis_correction(
+    p_user_id UUID,
+    p_analysis_id UUID,
+    p_calories INTEGER,
+    p_protein NUMERIC,
+    p_carbs NUMERIC,
+    p_fat NUMERIC
+)
+RETURNS analysis_corrections
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_analysis meal_analyses;
+    v_correction analysis_corrections;
+BEGIN
+    SELECT * INTO v_analysis
+    FROM meal_analyses
+    WHERE id = p_analysis_id AND user_id = p_user_id;
+
+    IF NOT FOUND THEN
+        RETURN NULL;
+    END IF;
+
+    INSERT INTO analysis_corrections AS c (
+        analysis_id, user_id,
+        original_calories, original_protein, original_carbs, original_fat, original_confidence,
+        corrected_calories, corrected_protein, corrected_carbs, corrected_fat,
+        ai_model, prompt_version, image_hash, description
+    )
+    VALUES (
+        v_analysis.id, p_user_id,
+        v_analysis.calories, v_analysis.protein, v_analysis.carbs, v_analysis.fat, v_analysis.confidence,
+        p_calories, p_protein, p_carbs, p_fat,
+        v_analysis.ai_model, v_analysis.prompt_version, v_analysis.image_hash, v_analysis.description
+    )
+    ON CONFLICT (analysis_id) DO UPDATE
+        SET corrected_calories = EXCLUDED.corrected_calories,
+            corrected_protein = EXCLUDED.corrected_protein,
+            corrected_carbs = EXCLUDED.corrected_carbs,
+            corrected_fat = EXCLUDED.corrected_fat,
+            updated_at = NOW()
+    RETURNING c.* INTO v_correction;
+
+    RETURN v_correction;
+END;
+$$;
+
+-- Mean absolute error and bias (estimate - corrected; positive = the AI
+-- overestimates) per model, confidence label and prompt version.
+CREATE OR REPLACE FUNCTION analysis_accuracy_report(p_since TIMESTAMP WITH TIME ZONE DEFAULT NULL)
+RETURNS TABLE (
+    ai_model TEXT,
+    confidence TEXT,
+    prompt_version TEXT,
+    corrections BIGINT,
+    calories_mae NUMERIC,
+    calories_bias NUMERIC,
+    protein_mae NUMERIC,
+    protein_bias NUMERIC,
+    carbs_mae NUMERIC,
+    carbs_bias NUMERIC,
+    fat_mae NUMERIC,
+    fat_bias NUMERIC
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT
+        c.ai_model,
+        c.original_confidence,
+        c.prompt_version,
+        COUNT(*),
+        ROUND(AVG(ABS(c.original_calories - c.corrected_calories)), 1),
+        ROUND(AVG(c.original_calories - c.corrected_calories), 1),
+        ROUND(AVG(ABS(c.original_protein - c.corrected_protein)), 1),
+        ROUND(AVG(c.original_protein - c.corrected_protein), 1),
+        ROUND(AVG(ABS(c.original_carbs - c.corrected_carbs)), 1),
+        ROUND(AVG(c.original_carbs - c.corrected_carbs), 1),
+        ROUND(AVG(ABS(c.original_fat - c.corrected_fat)), 1),
+        ROUND(AVG(c.original_fat - c.corrected_fat), 1)
+    FROM analysis_corrections c
+    WHERE p_since IS NULL OR c.created_at >= p_since
+    GROUP BY c.ai_model, c.original_confidence, c.prompt_version
+    ORDER BY c.ai_model, c.original_confidence, c.prompt_version;
+$$;
+
+-- Only the Edge Functions (service role) may call these
+REVOKE EXECUTE ON FUNCTION record_analysis_correction(UUID, UUID, INTEGER, NUMERIC, NUMERIC, NUMERIC) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION analysis_accuracy_report(TIMESTAMP WITH TIME ZONE) FROM PUBLIC, anon, authenticated;
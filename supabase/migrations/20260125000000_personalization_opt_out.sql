@@ -0,0 +1,10 @@
+-- ============================================================================
+-- Personalization opt-out
+-- ============================================================================
+-- analyze-meal gives the model a few of the user's own logged meals (matched
+-- by dish name) as portion calibration. Users who don't want their history
+-- used can switch it off here; a request can also opt out with
+-- "personalize": false.
+-- ============================================================================
+
+ALTER TABLE user_settings ADD COLUMN IF NOT EXISTS personalize_estimates BOOLEAN NOT NULL DEFAULT TRUE;
@@ -0,0 +1,9 @@
+-- ============================================================================
+-- Extended nutrients on logged meals
+-- ============================================================================
+-- Optional per-meal nutrients from the analysis (or entered by the user):
+-- { fiber, sugar, saturated_fat } in g and { sodium, iron, calcium } in mg.
+-- Any key may be missing when it wasn't estimated.
+-- ============================================================================
+
+ALTER TABLE meals ADD COLUMN IF NOT EXISTS nutrients JSONB;
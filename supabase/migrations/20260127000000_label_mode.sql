@@ -0,0 +1,11 @@
+-- ============================================================================
+-- Nutrition label mode
+-- ============================================================================
+-- analyze-meal can read a nutrition facts label (mode 'label') and compute the
+-- macros for the amount eaten. Those analyses are stored like any other, so
+-- corrections can be measured against them too.
+-- ============================================================================
+
+ALTER TABLE meal_analyses DROP CONSTRAINT IF EXISTS meal_analyses_mode_check;
+ALTER TABLE meal_analyses ADD CONSTRAINT meal_analyses_mode_check
+    CHECK (mode IN ('image', 'text', 'label'));
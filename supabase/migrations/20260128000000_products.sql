@@ -0,0 +1,28 @@
+-- ============================================================================
+-- Product catalog for barcode lookups
+-- ============================================================================
+-- analyze-meal looks barcodes up here first, then in the optional Open Food
+-- Facts-compatible catalog (PRODUCT_CATALOG_URL). Remote hits are copied
+-- here. Label columns use the same JSON shape as a read nutrition label:
+-- { calories, protein, carbs, fat, nutrients: { fiber, sugar, ... } }.
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS products (
+    barcode TEXT PRIMARY KEY,  -- EAN-8, EAN-13 (UPC-A with a leading zero) or GTIN-14
+    product_name TEXT,
+    serving_grams NUMERIC(7, 1),
+    per_100g JSONB,
+    per_serving JSONB,
+    source TEXT NOT NULL DEFAULT 'manual',  -- 'manual', or the catalog it was copied from
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    CHECK (per_100g IS NOT NULL OR per_serving IS NOT NULL)
+);
+
+-- No policies: only the Edge Function (service role) reads and writes it
+ALTER TABLE products ENABLE ROW LEVEL SECURITY;
+
+-- Barcode analyses are stored for corrections like any other
+ALTER TABLE meal_analyses DROP CONSTRAINT IF EXISTS meal_analyses_mode_check;
+ALTER TABLE meal_analyses ADD CONSTRAINT meal_analyses_mode_check
+    CHECK (mode IN ('image', 'text', 'label', 'barcode'));
@@ -0,0 +1,37 @@
+-- ============================================================================
+-- Async analysis jobs
+-- ============================================================================
+-- With "async": true, analyze-meal answers with a job_id right away and runs
+-- the analysis in the background. Progress (stage + provider) and the final
+-- result are written here. Clients poll GET /analyze-meal/jobs/:id, or
+-- subscribe to their row through Supabase Realtime.
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS analysis_jobs (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID REFERENCES auth.users(id) NOT NULL,
+    status TEXT NOT NULL DEFAULT 'queued'
+        CHECK (status IN ('queued', 'running', 'succeeded', 'failed')),
+    stage TEXT NOT NULL DEFAULT 'queued',  -- queued, fetching_images, analyzing, fallback, finishing, done
+    provider TEXT,                         -- Provider being called while analyzing
+    result JSONB,                          -- The analyze-meal response, when succeeded
+    error JSONB,                           -- { error, details }, when failed
+    http_status INTEGER,                   -- Status the synchronous request would have returned
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS analysis_jobs_user_created_idx ON analysis_jobs (user_id, created_at);
+
+-- Users can read (and subscribe to) their own jobs; only the Edge Function writes
+ALTER TABLE analysis_jobs ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can read their own analysis jobs" ON analysis_jobs;
+CREATE POLICY "Users can read their own analysis jobs"
+    ON analysis_jobs FOR SELECT
+    USING (auth.uid() = user_id);
+
+ALTER PUBLICATION supabase_realtime ADD TABLE analysis_jobs;
+
+-- Jobs are only useful for a few minutes; purge old rows periodically, e.g.
+-- DELETE FROM analysis_jobs WHERE created_at < NOW() - INTERVAL '7 days';
@@ -0,0 +1,158 @@
+-- ============================================================================
+-- Quota plans
+-- ============================================================================
+-- Replaces the single RATE_LIMIT_DAILY constant with per-user plans. A plan
+-- has a daily and a monthly analysis limit, plus optional separate daily
+-- limits for image and text analyses (label photos count as image).
+-- user_quotas assigns a plan and can override any limit for one user;
+-- users without a row are on the 'free' plan.
+--
+-- reserve_ai_quota() now resolves the limits itself and returns every
+-- window's limit and usage, so the Edge Function can send X-RateLimit-*
+-- headers.
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS quota_plans (
+    id TEXT PRIMARY KEY,
+    daily_limit INTEGER NOT NULL CHECK (daily_limit >= 0),
+    monthly_limit INTEGER NOT NULL CHECK (monthly_limit >= 0),
+    image_daily_limit INTEGER CHECK (image_daily_limit >= 0),  -- NULL = only daily_limit applies
+    text_daily_limit INTEGER CHECK (text_daily_limit >= 0),
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+INSERT INTO quota_plans (id, daily_limit, monthly_limit, image_daily_limit, text_daily_limit)
+VALUES
+    ('free', 7, 150, 5, NULL),
+    ('pro', 50, 1000, NULL, NULL),
+    ('internal', 500, 10000, NULL, NULL)
+ON CONFLICT (id) DO NOTHING;
+
+-- Plan assignment and per-user overrides (NULL = use the plan's value)
+CREATE TABLE IF NOT EXISTS user_quotas (
+    user_id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+    plan TEXT NOT NULL DEFAULT 'free' REFERENCES quota_plans(id),
+    daily_limit INTEGER CHECK (daily_limit >= 0),
+    monthly_limit INTEGER CHECK (monthly_limit >= 0),
+    image_daily_limit INTEGER CHECK (image_daily_limit >= 0),
+    text_daily_limit INTEGER CHECK (text_daily_limit >= 0),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+-- Plans are managed by the service role only; users may read their own quota row
+ALTER TABLE quota_plans ENABLE ROW LEVEL SECURITY;
+ALTER TABLE user_quotas ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view own quota" ON user_quotas;
+CREATE POLICY "Users can view own quota"
+    ON user_quotas FOR SELECT
+    USING (auth.uid() = user_id);
+
+-- Per-mode counters next to the total
+ALTER TABLE ai_usage ADD COLUMN IF NOT EXISTS image_calls INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE ai_usage ADD COLUMN IF NOT EXISTS text_calls INTEGER NOT NULL DEFAULT 0;
+
+DROP FUNCTION IF EXISTS reserve_ai_quota(UUID, INTEGER);
+DROP FUNCTION IF EXISTS release_ai_quota(UUID, DATE);
+
+-- Reserve one slot for p_mode ('image' or 'text'). allowed = false when any
+-- window is full; nothing is counted then. Usage includes this reservation
+-- when allowed. mode_limit is NULL when the plan has no separate mode limit.
+CREATE OR REPLACE FUNCTION reserve_ai_quota(p_user_id UUID, p_mode TEXT)
+RETURNS TABLE (
+    allowed BOOLEAN,
+    plan TEXT,
+    reserved_date DATE,
+    daily_limit INTEGER,
+    daily_used INTEGER,
+    mode_limit INTEGER,
+    mode_used INTEGER,
+    monthly_limit INTEGER,
+    monthly_used INTEGER
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+#variable_conflict use_column
+DECLARE
+    v_today DATE := (NOW() AT TIME ZONE 'UTC')::DATE;
+    v_plan TEXT;
+    v_daily_limit INTEGER;
+    v_mode_limit INTEGER;
+    v_monthly_limit INTEGER;
+    v_daily INTEGER;
+    v_mode INTEGER;
+    v_monthly INTEGER;
+BEGIN
+    IF p_mode NOT IN ('image', 'text') THEN
+        RAISE EXCEPTION 'Unknown quota mode: %', p_mode;
+    END IF;
+
+    SELECT p.id,
+           COALESCE(q.daily_limit, p.daily_limit),
+           CASE p_mode
+               WHEN 'image' THEN COALESCE(q.image_daily_limit, p.image_daily_limit)
+               ELSE COALESCE(q.text_daily_limit, p.text_daily_limit)
+           END,
+           COALESCE(q.monthly_limit, p.monthly_limit)
+    INTO v_plan, v_daily_limit, v_mode_limit, v_monthly_limit
+    FROM quota_plans p
+    LEFT JOIN user_quotas q ON q.user_id = p_user_id
+    WHERE p.id = COALESCE((SELECT uq.plan FROM user_quotas uq WHERE uq.user_id = p_user_id), 'free');
+
+    IF v_plan IS NULL THEN
+        RAISE EXCEPTION 'No quota plan found for user %', p_user_id;
+    END IF;
+
+    -- The monthly total spans many rows, so one conditional upsert can't
+    -- guard it. Serialize this user's reservations instead
+    PERFORM pg_advisory_xact_lock(hashtext('ai_quota:' || p_user_id::TEXT));
+
+    SELECT COALESCE(SUM(u.calls) FILTER (WHERE u.usage_date = v_today), 0),
+           COALESCE(SUM(CASE p_mode WHEN 'image' THEN u.image_calls ELSE u.text_calls END)
+                    FILTER (WHERE u.usage_date = v_today), 0),
+           COALESCE(SUM(u.calls), 0)
+    INTO v_daily, v_mode, v_monthly
+    FROM ai_usage u
+    WHERE u.user_id = p_user_id
+      AND u.usage_date >= date_trunc('month', v_today)::DATE;
+
+    IF v_daily >= v_daily_limit
+        OR (v_mode_limit IS NOT NULL AND v_mode >= v_mode_limit)
+        OR v_monthly >= v_monthly_limit
+    THEN
+        RETURN QUERY SELECT FALSE, v_plan, v_today,
+            v_daily_limit, v_daily, v_mode_limit, v_mode, v_monthly_limit, v_monthly;
+        RETURN;
+    END IF;
+
+    INSERT INTO ai_usage AS u (user_id, usage_date, calls, image_calls, text_calls, estimated_cost)
+    VALUES (p_user_id, v_today, 1, (p_mode = 'image')::INTEGER, (p_mode = 'text')::INTEGER, 0)
+    ON CONFLICT (user_id, usage_date) DO UPDATE
+        SET calls = u.calls + 1,
+            image_calls = u.image_calls + EXCLUDED.image_calls,
+            text_calls = u.text_calls + EXCLUDED.text_calls;
+
+    RETURN QUERY SELECT TRUE, v_plan, v_today,
+        v_daily_limit, v_daily + 1, v_mode_limit, v_mode + 1, v_monthly_limit, v_monthly + 1;
+END;
+$$;
+
+-- Give back a reserved slot when the analysis failed
+CREATE OR REPLACE FUNCTION release_ai_quota(p_user_id UUID, p_usage_date DATE, p_mode TEXT)
+RETURNS VOID
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    UPDATE ai_usage
+    SET calls = GREATEST(calls - 1, 0),
+        image_calls = CASE WHEN p_mode = 'image' THEN GREATEST(image_calls - 1, 0) ELSE image_calls END,
+        text_calls = CASE WHEN p_mode = 'text' THEN GREATEST(text_calls - 1, 0) ELSE text_calls END
+    WHERE user_id = p_user_id AND usage_date = p_usage_date;
+$$;
+
+-- Only the Edge Function (service role) may call these
+REVOKE EXECUTE ON FUNCTION reserve_ai_quota(UUID, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION release_ai_quota(UUID, DATE, TEXT) FROM PUBLIC, anon, authenticated;
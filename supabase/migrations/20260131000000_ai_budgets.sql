@@ -0,0 +1,114 @@
+-- ============================================================================
+-- Layered AI budgets
+-- ============================================================================
+-- The monthly cost guard used to sum every ai_usage row of the month on
+-- each request. record_ai_calls now also keeps monthly counters (per user
+-- and in total), and get_ai_budget() reads them in one go.
+--
+-- Plans get an optional per-user monthly budget next to the global limit
+-- in config.ts. The Edge Function degrades (no fallback, then cheapest
+-- provider or text-only) as either gets close, and refuses only at 100%.
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS ai_monthly_costs (
+    month DATE NOT NULL,  -- First day of the month (UTC)
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    estimated_cost NUMERIC(12, 6) NOT NULL DEFAULT 0,
+    PRIMARY KEY (month, user_id)
+);
+
+-- One row per month. Every recorded analysis updates it, which is fine at
+-- this app's volume
+CREATE TABLE IF NOT EXISTS ai_monthly_totals (
+    month DATE PRIMARY KEY,
+    estimated_cost NUMERIC(14, 6) NOT NULL DEFAULT 0
+);
+
+-- No policies: only the Edge Function (service role) reads and writes them
+ALTER TABLE ai_monthly_costs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE ai_monthly_totals ENABLE ROW LEVEL SECURITY;
+
+-- Backfill from the daily rows
+INSERT INTO ai_monthly_costs (month, user_id, estimated_cost)
+SELECT date_trunc('month', usage_date)::DATE, user_id, SUM(estimated_cost)
+FROM ai_usage
+GROUP BY 1, 2
+ON CONFLICT (month, user_id) DO UPDATE SET estimated_cost = EXCLUDED.estimated_cost;
+
+INSERT INTO ai_monthly_totals (month, estimated_cost)
+SELECT date_trunc('month', usage_date)::DATE, SUM(estimated_cost)
+FROM ai_usage
+GROUP BY 1
+ON CONFLICT (month) DO UPDATE SET estimated_cost = EXCLUDED.estimated_cost;
+
+-- Per-user monthly budget in INR (NULL = only the global limit applies)
+ALTER TABLE quota_plans ADD COLUMN IF NOT EXISTS monthly_budget_inr NUMERIC(10, 2) CHECK (monthly_budget_inr >= 0);
+ALTER TABLE user_quotas ADD COLUMN IF NOT EXISTS monthly_budget_inr NUMERIC(10, 2) CHECK (monthly_budget_inr >= 0);
+
+UPDATE quota_plans SET monthly_budget_inr = 10 WHERE id = 'free' AND monthly_budget_inr IS NULL;
+UPDATE quota_plans SET monthly_budget_inr = 100 WHERE id = 'pro' AND monthly_budget_inr IS NULL;
+
+-- Same as before, plus the monthly counters
+CREATE OR REPLACE FUNCTION record_ai_calls(p_user_id UUID, p_usage_date DATE, p_calls JSONB)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_total NUMERIC;
+    v_month DATE := date_trunc('month', p_usage_date)::DATE;
+BEGIN
+    INSERT INTO ai_calls (user_id, usage_date, provider, model, input_tokens, output_tokens, cost_inr, outcome)
+    SELECT p_user_id, p_usage_date, c.provider, c.model, c.input_tokens, c.output_tokens, c.cost_inr, c.outcome
+    FROM jsonb_to_recordset(p_calls) AS c(
+        provider TEXT,
+        model TEXT,
+        input_tokens INTEGER,
+        output_tokens INTEGER,
+        cost_inr NUMERIC,
+        outcome TEXT
+    );
+
+    SELECT COALESCE(SUM((c->>'cost_inr')::NUMERIC), 0) INTO v_total
+    FROM jsonb_array_elements(p_calls) AS c;
+
+    INSERT INTO ai_usage AS u (user_id, usage_date, calls, estimated_cost)
+    VALUES (p_user_id, p_usage_date, 0, v_total)
+    ON CONFLICT (user_id, usage_date) DO UPDATE
+        SET estimated_cost = u.estimated_cost + EXCLUDED.estimated_cost;
+
+    INSERT INTO ai_monthly_costs AS m (month, user_id, estimated_cost)
+    VALUES (v_month, p_user_id, v_total)
+    ON CONFLICT (month, user_id) DO UPDATE
+        SET estimated_cost = m.estimated_cost + EXCLUDED.estimated_cost;
+
+    INSERT INTO ai_monthly_totals AS t (month, estimated_cost)
+    VALUES (v_month, v_total)
+    ON CONFLICT (month) DO UPDATE
+        SET estimated_cost = t.estimated_cost + EXCLUDED.estimated_cost;
+END;
+$$;
+
+-- This month's spend, in total and for one user, and that user's budget
+CREATE OR REPLACE FUNCTION get_ai_budget(p_user_id UUID)
+RETURNS TABLE (global_cost NUMERIC, user_cost NUMERIC, user_budget NUMERIC)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    WITH this_month AS (
+        SELECT date_trunc('month', (NOW() AT TIME ZONE 'UTC')::DATE)::DATE AS month
+    )
+    SELECT
+        COALESCE((SELECT t.estimated_cost FROM ai_monthly_totals t, this_month WHERE t.month = this_month.month), 0),
+        COALESCE((SELECT m.estimated_cost FROM ai_monthly_costs m, this_month
+                  WHERE m.month = this_month.month AND m.user_id = p_user_id), 0),
+        (SELECT COALESCE(q.monthly_budget_inr, p.monthly_budget_inr)
+         FROM quota_plans p
+         LEFT JOIN user_quotas q ON q.user_id = p_user_id
+         WHERE p.id = COALESCE((SELECT uq.plan FROM user_quotas uq WHERE uq.user_id = p_user_id), 'free'));
+$$;
+
+REVOKE EXECUTE ON FUNCTION get_ai_budget(UUID) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,232 @@
+-- ============================================================================
+-- AI usage and cost reporting
+-- ============================================================================
+-- ai_calls gets what an admin report needs beyond tokens and cost: the
+-- analysis mode, how long the call took, whether it was a fallback (made
+-- after an earlier provider failed or was unsure), and the request it
+-- belongs to, so calls can be counted per analysis.
+--
+-- The usage-report Edge Function reads three report functions: totals and
+-- rates per day or month, calls and cost per provider and mode, and the
+-- users with the highest spend. Rows logged before this migration have no
+-- mode, latency or request id; they count as calls but not as analyses.
+-- ============================================================================
+
+ALTER TABLE ai_calls ADD COLUMN IF NOT EXISTS mode TEXT CHECK (mode IN ('image', 'text', 'label'));
+ALTER TABLE ai_calls ADD COLUMN IF NOT EXISTS latency_ms INTEGER CHECK (latency_ms >= 0);
+ALTER TABLE ai_calls ADD COLUMN IF NOT EXISTS fallback BOOLEAN NOT NULL DEFAULT FALSE;
+ALTER TABLE ai_calls ADD COLUMN IF NOT EXISTS request_id UUID;
+
+CREATE INDEX IF NOT EXISTS ai_calls_request_idx ON ai_calls (request_id);
+
+DROP FUNCTION IF EXISTS record_ai_calls(UUID, DATE, JSONB);
+
+-- Same as before, plus the new columns. p_calls is a JSON array of
+-- { provider, model, input_tokens, output_tokens, cost_inr, outcome, latency_ms, fallback }
+CREATE OR REPLACE FUNCTION record_ai_calls(
+    p_user_id UUID,
+    p_usage_date DATE,
+    p_mode TEXT,
+    p_request_id UUID,
+    p_calls JSONB
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_total NUMERIC;
+    v_month DATE := date_trunc('month', p_usage_date)::DATE;
+BEGIN
+    INSERT INTO ai_calls (
+        user_id, usage_date, provider, model, input_tokens, output_tokens, cost_inr, outcome,
+        mode, latency_ms, fallback, request_id
+    )
+    SELECT p_user_id, p_usage_date, c.provider, c.model, c.input_tokens, c.output_tokens, c.cost_inr, c.outcome,
+           p_mode, c.latency_ms, COALESCE(c.fallback, FALSE), p_request_id
+    FROM jsonb_to_recordset(p_calls) AS c(
+        provider TEXT,
+        model TEXT,
+        input_tokens INTEGER,
+        output_tokens INTEGER,
+        cost_inr NUMERIC,
+        outcome TEXT,
+        latency_ms INTEGER,
+        fallback BOOLEAN
+    );
+
+    SELECT COALESCE(SUM((c->>'cost_inr')::NUMERIC), 0) INTO v_total
+    FROM jsonb_array_elements(p_calls) AS c;
+
+    INSERT INTO ai_usage AS u (user_id, usage_date, calls, estimated_cost)
+    VALUES (p_user_id, p_usage_date, 0, v_total)
+    ON CONFLICT (user_id, usage_date) DO UPDATE
+        SET estimated_cost = u.estimated_cost + EXCLUDED.estimated_cost;
+
+    INSERT INTO ai_monthly_costs AS m (month, user_id, estimated_cost)
+    VALUES (v_month, p_user_id, v_total)
+    ON CONFLICT (month, user_id) DO UPDATE
+        SET estimated_cost = m.estimated_cost + EXCLUDED.estimated_cost;
+
+    INSERT INTO ai_monthly_totals AS t (month, estimated_cost)
+    VALUES (v_month, v_total)
+    ON CONFLICT (month) DO UPDATE
+        SET estimated_cost = t.estimated_cost + EXCLUDED.estimated_cost;
+END;
+$$;
+
+-- Totals per day or month (p_period). An analysis failed when none of its
+-- calls was used, and fell back when any of them was a fallback call.
+CREATE OR REPLACE FUNCTION ai_usage_summary(p_from DATE, p_to DATE, p_period TEXT)
+RETURNS TABLE (
+    period DATE,
+    analyses BIGINT,
+    failed_analyses BIGINT,
+    fallback_analyses BIGINT,
+    calls BIGINT,
+    failed_calls BIGINT,
+    users BIGINT,
+    cost_inr NUMERIC,
+    avg_latency_ms NUMERIC,
+    error_rate NUMERIC,
+    fallback_rate NUMERIC
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    WITH requests AS (
+        SELECT c.request_id,
+               MIN(c.usage_date) AS usage_date,
+               BOOL_OR(c.outcome = 'used') AS succeeded,
+               BOOL_OR(c.fallback) AS fell_back
+        FROM ai_calls c
+        WHERE c.usage_date BETWEEN p_from AND p_to
+          AND c.request_id IS NOT NULL
+        GROUP BY c.request_id
+    ),
+    per_request AS (
+        SELECT date_trunc(p_period, r.usage_date)::DATE AS period,
+               COUNT(*) AS analyses,
+               COUNT(*) FILTER (WHERE NOT r.succeeded) AS failed_analyses,
+               COUNT(*) FILTER (WHERE r.fell_back) AS fallback_analyses
+        FROM requests r
+        GROUP BY 1
+    ),
+    per_call AS (
+        SELECT date_trunc(p_period, c.usage_date)::DATE AS period,
+               COUNT(*) AS calls,
+               COUNT(*) FILTER (WHERE c.outcome = 'failed') AS failed_calls,
+               COUNT(DISTINCT c.user_id) AS users,
+               SUM(c.cost_inr) AS cost_inr,
+               ROUND(AVG(c.latency_ms)) AS avg_latency_ms
+        FROM ai_calls c
+        WHERE c.usage_date BETWEEN p_from AND p_to
+        GROUP BY 1
+    )
+    SELECT
+        pc.period,
+        COALESCE(pr.analyses, 0),
+        COALESCE(pr.failed_analyses, 0),
+        COALESCE(pr.fallback_analyses, 0),
+        pc.calls,
+        pc.failed_calls,
+        pc.users,
+        ROUND(pc.cost_inr, 4),
+        pc.avg_latency_ms,
+        ROUND(pr.failed_analyses::NUMERIC / NULLIF(pr.analyses, 0), 4),
+        ROUND(pr.fallback_analyses::NUMERIC / NULLIF(pr.analyses, 0), 4)
+    FROM per_call pc
+    LEFT JOIN per_request pr ON pr.period = pc.period
+    ORDER BY pc.period;
+$$;
+
+-- Calls, tokens and cost per day or month, provider and mode ('unknown'
+-- for calls logged before modes were recorded)
+CREATE OR REPLACE FUNCTION ai_usage_report(p_from DATE, p_to DATE, p_period TEXT)
+RETURNS TABLE (
+    period DATE,
+    provider TEXT,
+    mode TEXT,
+    calls BIGINT,
+    used_calls BIGINT,
+    discarded_calls BIGINT,
+    failed_calls BIGINT,
+    fallback_calls BIGINT,
+    users BIGINT,
+    input_tokens BIGINT,
+    output_tokens BIGINT,
+    cost_inr NUMERIC,
+    avg_latency_ms NUMERIC,
+    error_rate NUMERIC
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT
+        date_trunc(p_period, c.usage_date)::DATE,
+        c.provider,
+        COALESCE(c.mode, 'unknown'),
+        COUNT(*),
+        COUNT(*) FILTER (WHERE c.outcome = 'used'),
+        COUNT(*) FILTER (WHERE c.outcome = 'discarded'),
+        COUNT(*) FILTER (WHERE c.outcome = 'failed'),
+        COUNT(*) FILTER (WHERE c.fallback),
+        COUNT(DISTINCT c.user_id),
+        SUM(c.input_tokens),
+        SUM(c.output_tokens),
+        ROUND(SUM(c.cost_inr), 4),
+        ROUND(AVG(c.latency_ms)),
+        ROUND((COUNT(*) FILTER (WHERE c.outcome = 'failed'))::NUMERIC / COUNT(*), 4)
+    FROM ai_calls c
+    WHERE c.usage_date BETWEEN p_from AND p_to
+    GROUP BY 1, 2, 3
+    ORDER BY 1, 2, 3;
+$$;
+
+-- Users by spend over the whole range, highest first
+CREATE OR REPLACE FUNCTION ai_usage_top_users(p_from DATE, p_to DATE, p_limit INTEGER)
+RETURNS TABLE (
+    user_id UUID,
+    email TEXT,
+    plan TEXT,
+    analyses BIGINT,
+    image_calls BIGINT,
+    text_calls BIGINT,
+    calls BIGINT,
+    failed_calls BIGINT,
+    cost_inr NUMERIC
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT
+        c.user_id,
+        u.email::TEXT,
+        COALESCE(q.plan, 'free'),
+        COUNT(DISTINCT c.request_id),
+        COUNT(*) FILTER (WHERE c.mode IN ('image', 'label')),
+        COUNT(*) FILTER (WHERE c.mode = 'text'),
+        COUNT(*),
+        COUNT(*) FILTER (WHERE c.outcome = 'failed'),
+        ROUND(SUM(c.cost_inr), 4)
+    FROM ai_calls c
+    LEFT JOIN auth.users u ON u.id = c.user_id
+    LEFT JOIN user_quotas q ON q.user_id = c.user_id
+    WHERE c.usage_date BETWEEN p_from AND p_to
+    GROUP BY c.user_id, u.email, q.plan
+    ORDER BY SUM(c.cost_inr) DESC, COUNT(*) DESC
+    LIMIT p_limit;
+$$;
+
+-- Only the Edge Functions (service role) may call these
+REVOKE EXECUTE ON FUNCTION record_ai_calls(UUID, DATE, TEXT, UUID, JSONB) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION ai_usage_summary(DATE, DATE, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION ai_usage_report(DATE, DATE, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION ai_usage_top_users(DATE, DATE, INTEGER) FROM PUBLIC, anon, authenticated;
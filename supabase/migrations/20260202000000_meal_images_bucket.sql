@@ -0,0 +1,38 @@
+-- ============================================================================
+-- Storage bucket for meal photos
+-- ============================================================================
+-- analyze-meal saves uploaded photos here when a request sets store_image,
+-- under <user id>/<file>, and returns their paths. Apps can also upload
+-- photos themselves and analyze them by signed URL.
+--
+-- The bucket is private: users can only upload, read and delete files in
+-- their own folder. The Edge Function uses the service role key.
+-- ============================================================================
+
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES (
+    'meal-images',
+    'meal-images',
+    FALSE,
+    10485760,  -- Same cap as direct uploads to analyze-meal (10 MB)
+    ARRAY['image/jpeg', 'image/png', 'image/webp', 'image/heic']
+)
+ON CONFLICT (id) DO NOTHING;
+
+DROP POLICY IF EXISTS "Users can upload their own meal images" ON storage.objects;
+CREATE POLICY "Users can upload their own meal images"
+    ON storage.objects FOR INSERT
+    TO authenticated
+    WITH CHECK (bucket_id = 'meal-images' AND (storage.foldername(name))[1] = auth.uid()::TEXT);
+
+DROP POLICY IF EXISTS "Users can read their own meal images" ON storage.objects;
+CREATE POLICY "Users can read their own meal images"
+    ON storage.objects FOR SELECT
+    TO authenticated
+    USING (bucket_id = 'meal-images' AND (storage.foldername(name))[1] = auth.uid()::TEXT);
+
+DROP POLICY IF EXISTS "Users can delete their own meal images" ON storage.objects;
+CREATE POLICY "Users can delete their own meal images"
+    ON storage.objects FOR DELETE
+    TO authenticated
+    USING (bucket_id = 'meal-images' AND (storage.foldername(name))[1] = auth.uid()::TEXT);
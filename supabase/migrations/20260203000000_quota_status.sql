@@ -0,0 +1,78 @@
+-- ============================================================================
+-- Read-only quota status
+-- ============================================================================
+-- Cache hits and barcode lookups don't reserve a slot, but their responses
+-- should still carry X-RateLimit-* headers. get_ai_quota() returns the same
+-- limits and usage as reserve_ai_quota() without counting anything.
+-- allowed says whether a reservation would succeed right now.
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION get_ai_quota(p_user_id UUID, p_mode TEXT)
+RETURNS TABLE (
+    allowed BOOLEAN,
+    plan TEXT,
+    reserved_date DATE,
+    daily_limit INTEGER,
+    daily_used INTEGER,
+    mode_limit INTEGER,
+    mode_used INTEGER,
+    monthly_limit INTEGER,
+    monthly_used INTEGER
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+#variable_conflict use_column
+DECLARE
+    v_today DATE := (NOW() AT TIME ZONE 'UTC')::DATE;
+    v_plan TEXT;
+    v_daily_limit INTEGER;
+    v_mode_limit INTEGER;
+    v_monthly_limit INTEGER;
+    v_daily INTEGER;
+    v_mode INTEGER;
+    v_monthly INTEGER;
+BEGIN
+    IF p_mode NOT IN ('image', 'text') THEN
+        RAISE EXCEPTION 'Unknown quota mode: %', p_mode;
+    END IF;
+
+    -- Same limit resolution as reserve_ai_quota()
+    SELECT p.id,
+           COALESCE(q.daily_limit, p.daily_limit),
+           CASE p_mode
+               WHEN 'image' THEN COALESCE(q.image_daily_limit, p.image_daily_limit)
+               ELSE COALESCE(q.text_daily_limit, p.text_daily_limit)
+           END,
+           COALESCE(q.monthly_limit, p.monthly_limit)
+    INTO v_plan, v_daily_limit, v_mode_limit, v_monthly_limit
+    FROM quota_plans p
+    LEFT JOIN user_quotas q ON q.user_id = p_user_id
+    WHERE p.id = COALESCE((SELECT uq.plan FROM user_quotas uq WHERE uq.user_id = p_user_id), 'free');
+
+    IF v_plan IS NULL THEN
+        RAISE EXCEPTION 'No quota plan found for user %', p_user_id;
+    END IF;
+
+    SELECT COALESCE(SUM(u.calls) FILTER (WHERE u.usage_date = v_today), 0),
+           COALESCE(SUM(CASE p_mode WHEN 'image' THEN u.image_calls ELSE u.text_calls END)
+                    FILTER (WHERE u.usage_date = v_today), 0),
+           COALESCE(SUM(u.calls), 0)
+    INTO v_daily, v_mode, v_monthly
+    FROM ai_usage u
+    WHERE u.user_id = p_user_id
+      AND u.usage_date >= date_trunc('month', v_today)::DATE;
+
+    RETURN QUERY SELECT
+        v_daily < v_daily_limit
+            AND (v_mode_limit IS NULL OR v_mode < v_mode_limit)
+            AND v_monthly < v_monthly_limit,
+        v_plan, v_today,
+        v_daily_limit, v_daily, v_mode_limit, v_mode, v_monthly_limit, v_monthly;
+END;
+$$;
+
+-- Only the Edge Function (service role) may call this
+REVOKE EXECUTE ON FUNCTION get_ai_quota(UUID, TEXT) FROM PUBLIC, anon, authenticated;